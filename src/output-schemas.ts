@@ -0,0 +1,274 @@
+import { z } from 'zod';
+
+/**
+ * Output schemas of the tools that return structuredContent. Each describes exactly the object
+ * the tool handler builds; objects passed through from the YouTube API keep unknown fields.
+ */
+
+// Fields the YouTube API may omit come back as undefined, or null after a cache round trip
+// (a fresh schema per field, since a shared instance is emitted as a $ref to its first use)
+const apiString = () => z.string().nullish();
+
+export const videoStatsOutputSchema = z.object({
+  videoId: apiString(),
+  title: apiString(),
+  publishedAt: apiString(),
+  channelTitle: apiString(),
+  viewCount: apiString().describe('Decimal string, as returned by the API'),
+  likeCount: apiString(),
+  commentCount: apiString(),
+  duration: apiString().describe('ISO 8601 duration, e.g. PT4M13S')
+});
+
+export const channelStatsOutputSchema = z.object({
+  channelId: apiString(),
+  title: apiString(),
+  createdAt: apiString(),
+  subscriberCount: apiString().describe('Decimal string; rounded by YouTube'),
+  videoCount: apiString(),
+  viewCount: apiString(),
+  thumbnailUrl: apiString()
+});
+
+const videoComparisonSchema = z.object({
+  videoId: apiString(),
+  title: apiString(),
+  viewCount: z.number(),
+  likeCount: z.number(),
+  commentCount: z.number(),
+  publishedAt: apiString()
+});
+
+export const compareVideosOutputSchema = z.object({
+  videos: z.array(videoComparisonSchema),
+  missingIds: z.array(z.string()).describe('Requested IDs that returned no video')
+});
+
+export const analyzeChannelVideosOutputSchema = z.object({
+  channelId: z.string(),
+  uploadsPlaylistId: z.string(),
+  publishedAfter: z.string().optional(),
+  publishedBefore: z.string().optional(),
+  videoCount: z.number().describe('Videos in the date window; averages cover all of them'),
+  playlistItemsScanned: z.number(),
+  pagesFetched: z.number(),
+  stoppedReason: z.enum(['exhausted', 'dateRange', 'pageLimit', 'quotaBudget']),
+  sortBy: z.enum(['date', 'viewCount', 'rating']),
+  averages: z.object({
+    viewCount: z.number(),
+    likeCount: z.number(),
+    commentCount: z.number()
+  }),
+  videos: z.array(z.object({
+    videoId: z.string(),
+    title: apiString(),
+    publishedAt: apiString(),
+    duration: apiString(),
+    viewCount: z.number(),
+    likeCount: z.number(),
+    commentCount: z.number()
+  }))
+});
+
+export const trendingVideosOutputSchema = z.object({
+  regionCode: z.string(),
+  categoryId: z.string().optional(),
+  videos: z.array(z.object({
+    videoId: apiString(),
+    title: apiString(),
+    channelTitle: apiString(),
+    publishedAt: apiString(),
+    viewCount: apiString(),
+    likeCount: apiString(),
+    commentCount: apiString()
+  }))
+});
+
+const thumbnailSchema = z.object({
+  url: apiString(),
+  width: z.number().nullish(),
+  height: z.number().nullish()
+}).passthrough();
+
+const searchResultSchema = z.object({
+  kind: apiString(),
+  etag: apiString(),
+  id: z.object({
+    kind: apiString(),
+    videoId: apiString(),
+    channelId: apiString(),
+    playlistId: apiString()
+  }).passthrough().nullish(),
+  snippet: z.object({
+    publishedAt: apiString(),
+    channelId: apiString(),
+    title: apiString(),
+    description: apiString(),
+    channelTitle: apiString(),
+    liveBroadcastContent: apiString(),
+    thumbnails: z.record(thumbnailSchema).nullish()
+  }).passthrough().nullish()
+}).passthrough();
+
+export const searchVideosOutputSchema = z.object({
+  items: z.array(searchResultSchema).nullish(),
+  nextPageToken: apiString().describe('Pass as pageToken to continue'),
+  prevPageToken: apiString(),
+  pageInfo: z.object({
+    totalResults: z.number().nullish(),
+    resultsPerPage: z.number().nullish()
+  }).passthrough().nullish(),
+  // Set when totalResults made the server page automatically
+  totalAvailable: z.number().nullish(),
+  pagesFetched: z.number().optional(),
+  duplicatesRemoved: z.number().optional(),
+  stoppedReason: z.enum(['target', 'exhausted', 'pageLimit', 'quotaBudget']).optional()
+}).passthrough();
+
+const accountPageFields = () => ({
+  nextPageToken: z.string().nullable().describe('Pass as pageToken to continue'),
+  totalResults: z.number().nullable()
+});
+
+export const mySubscriptionsOutputSchema = z.object({
+  items: z.array(z.object({
+    channelId: apiString(),
+    title: apiString(),
+    description: apiString(),
+    subscribedAt: apiString(),
+    thumbnailUrl: apiString(),
+    totalItemCount: z.number().nullish(),
+    newItemCount: z.number().nullish()
+  })),
+  ...accountPageFields()
+});
+
+export const myPlaylistsOutputSchema = z.object({
+  items: z.array(z.object({
+    id: apiString(),
+    title: apiString(),
+    description: apiString(),
+    privacyStatus: apiString().describe('"public", "unlisted" or "private"'),
+    itemCount: z.number().nullish(),
+    publishedAt: apiString()
+  })).optional(),
+  // Set instead of items when playlistId was given
+  playlistId: z.string().optional(),
+  playlistItems: z.array(z.object({
+    playlistItemId: apiString(),
+    position: z.number().nullish(),
+    videoId: apiString(),
+    title: apiString(),
+    channelTitle: apiString(),
+    addedAt: apiString(),
+    privacyStatus: apiString()
+  })).optional(),
+  ...accountPageFields()
+});
+
+export const playlistChangeOutputSchema = z.object({
+  dryRun: z.boolean(),
+  summary: z.string(),
+  playlist: z.object({
+    id: apiString(),
+    title: apiString(),
+    description: apiString(),
+    privacyStatus: apiString(),
+    itemCount: z.number().nullish(),
+    publishedAt: apiString()
+  }).optional(),
+  playlistId: apiString(),
+  items: z.array(z.object({
+    playlistItemId: apiString(),
+    position: z.number().nullish(),
+    videoId: apiString(),
+    title: apiString(),
+    channelTitle: apiString(),
+    addedAt: apiString(),
+    privacyStatus: apiString()
+  })).describe('Items added, removed or moved; planned ones in a dry run'),
+  skipped: z.array(z.object({ videoId: z.string(), reason: z.string() })),
+  quota: z.object({
+    used: z.number().describe('Units this call spent, including lookups made for a dry run'),
+    usedByEndpoint: z.record(z.number()),
+    writeCost: z.number().describe('Units of the writes; in a dry run, what applying it would cost')
+  })
+});
+
+export const likedVideosOutputSchema = z.object({
+  items: z.array(z.object({
+    videoId: apiString(),
+    title: apiString(),
+    channelTitle: apiString(),
+    publishedAt: apiString(),
+    duration: apiString(),
+    viewCount: apiString(),
+    likeCount: apiString()
+  })),
+  ...accountPageFields()
+});
+
+const transcriptSegmentSchema = z.object({
+  text: z.string(),
+  offset: z.number().describe('Milliseconds'),
+  duration: z.number().describe('Milliseconds'),
+  videoId: z.string().optional()
+});
+
+const transcriptSectionSchema = z.object({
+  index: z.number(),
+  videoId: z.string().optional(),
+  title: z.string().optional(),
+  startTime: z.number(),
+  endTime: z.number(),
+  firstSegment: z.number(),
+  lastSegment: z.number(),
+  boundaryScore: z.number().optional(),
+  topTerms: z.array(z.string())
+});
+
+export const enhancedTranscriptOutputSchema = z.object({
+  segments: z.array(transcriptSegmentSchema),
+  totalSegments: z.number(),
+  duration: z.number().describe('Seconds'),
+  format: z.string(),
+  text: z.string().optional().describe('Timestamped, merged or subtitle text, depending on format'),
+  subtitleFiles: z.array(z.object({ videoId: z.string().optional(), text: z.string() })).optional(),
+  keyMoments: z.array(z.object({
+    title: z.string(),
+    score: z.number(),
+    startTime: z.number(),
+    endTime: z.number(),
+    text: z.string(),
+    keywords: z.array(z.string())
+  })).optional(),
+  tracks: z.array(z.object({
+    videoId: z.string(),
+    languageCode: z.string(),
+    name: z.string(),
+    isAutoGenerated: z.boolean(),
+    isTranslatable: z.boolean(),
+    provider: z.string()
+  })).optional(),
+  sections: z.array(transcriptSectionSchema).optional(),
+  chunk: z.object({
+    chunk: z.number(),
+    totalChunks: z.number(),
+    startTime: z.number(),
+    endTime: z.number(),
+    firstSegment: z.number(),
+    lastSegment: z.number(),
+    overlapSegments: z.number(),
+    tokenEstimate: z.number()
+  }).optional(),
+  metadata: z.array(z.object({
+    id: apiString(),
+    title: apiString(),
+    channelId: apiString(),
+    channelTitle: apiString(),
+    publishedAt: apiString(),
+    duration: apiString(),
+    viewCount: apiString(),
+    likeCount: apiString()
+  }).nullable()).optional()
+});
@@ -0,0 +1,112 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CaptionTrack, ProviderTranscript, TranscriptProvider, YouTubeError } from '../types/youtube-types.js';
+import { isLanguageCode } from '../utils/identifiers.js';
+import { parseCues, parseJsonTranscript } from '../utils/subtitle-formats.js';
+
+const SUPPORTED_EXTENSIONS = ['srt', 'vtt', 'json'] as const;
+
+/**
+ * Reads transcripts from a local directory, keyed by video ID. For a language-specific
+ * request it looks for `<videoId>.<language>.<ext>` first, then `<videoId>.<ext>`,
+ * where ext is srt, vtt or json. Files without a language are reported as language "und".
+ */
+export class LocalTranscriptProvider implements TranscriptProvider {
+  readonly name = 'local';
+
+  constructor(private directory: string) {}
+
+  async listTracks(videoId: string): Promise<CaptionTrack[]> {
+    this.assertSafeVideoId(videoId);
+
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const tracks = new Map<string, CaptionTrack>();
+    for (const file of files.sort()) {
+      const match = file.match(/^(.+?)(?:\.([A-Za-z]{2,3}(?:[-_][\w]+)?))?\.(srt|vtt|json)$/);
+      if (match && match[1] === videoId) {
+        const languageCode = match[2] || 'und';
+        if (!tracks.has(languageCode)) {
+          tracks.set(languageCode, this.toCaptionTrack(languageCode, file));
+        }
+      }
+    }
+
+    return Array.from(tracks.values());
+  }
+
+  async fetchTranscript(videoId: string, language?: string): Promise<ProviderTranscript> {
+    this.assertSafeVideoId(videoId);
+    if (language !== undefined && !isLanguageCode(language)) {
+      throw new YouTubeError({ code: 'INVALID_ARGUMENT', message: `Invalid language code for local transcript lookup: ${language}` });
+    }
+
+    const baseNames = language ? [`${videoId}.${language}`, videoId] : [videoId];
+
+    for (const baseName of baseNames) {
+      for (const extension of SUPPORTED_EXTENSIONS) {
+        const fileName = `${baseName}.${extension}`;
+        const filePath = this.resolveFile(fileName);
+        let content: string;
+
+        try {
+          content = await fs.readFile(filePath, 'utf8');
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            continue;
+          }
+          throw error;
+        }
+
+        const segments = extension === 'json' ? parseJsonTranscript(content) : parseCues(content);
+        if (!segments.length) {
+          throw new YouTubeError({ code: 'TRANSCRIPT_NOT_FOUND', message: `Local transcript file ${filePath} contains no cues` });
+        }
+        return {
+          segments,
+          track: this.toCaptionTrack(baseName === videoId ? 'und' : language as string, fileName)
+        };
+      }
+    }
+
+    throw new YouTubeError({
+      code: 'TRANSCRIPT_NOT_FOUND',
+      message: `No local transcript file for ${videoId}${language ? ` (${language})` : ''} in ${this.directory}`
+    });
+  }
+
+  // Video IDs become file names, so anything that could escape the directory is rejected
+  private assertSafeVideoId(videoId: string): void {
+    if (!/^[\w-]+$/.test(videoId)) {
+      throw new YouTubeError({ code: 'INVALID_ARGUMENT', message: `Invalid video ID for local transcript lookup: ${videoId}` });
+    }
+  }
+
+  // Second line of defence behind the ID and language checks: the file must be in the directory itself
+  private resolveFile(fileName: string): string {
+    const directory = path.resolve(this.directory);
+    const filePath = path.resolve(directory, fileName);
+    if (path.dirname(filePath) !== directory) {
+      throw new YouTubeError({ code: 'INVALID_ARGUMENT', message: `Local transcript file name escapes ${this.directory}: ${fileName}` });
+    }
+    return filePath;
+  }
+
+  private toCaptionTrack(languageCode: string, fileName: string): CaptionTrack {
+    return {
+      languageCode,
+      name: fileName,
+      isAutoGenerated: false,
+      isTranslatable: false,
+      provider: this.name
+    };
+  }
+}
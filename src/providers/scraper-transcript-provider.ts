@@ -0,0 +1,184 @@
+import { CaptionTrack, ProviderTranscript, TranscriptProvider, TranscriptSegment, YouTubeError } from '../types/youtube-types.js';
+import { decodeEntities } from '../utils/subtitle-formats.js';
+import { RequestExecutor } from '../utils/request-executor.js';
+
+const WATCH_URL = 'https://www.youtube.com/watch?v=';
+const DEFAULT_LANGUAGE = 'en'; // Preferred when no language is requested, as before track listing existed
+
+interface PlayerCaptionTrack {
+  baseUrl: string;
+  languageCode: string;
+  name?: { simpleText?: string; runs?: Array<{ text?: string }> };
+  kind?: string; // 'asr' for automatic speech recognition tracks
+  isTranslatable?: boolean;
+}
+
+/**
+ * Extracts the JSON array that follows a key in the watch page, matching brackets
+ * so that nested arrays inside track names do not cut it short
+ */
+function extractJsonArray(html: string, key: string): unknown[] | null {
+  const keyIndex = html.indexOf(key);
+  const start = keyIndex === -1 ? -1 : html.indexOf('[', keyIndex + key.length);
+  if (start === -1) {
+    return null;
+  }
+
+  let depth = 0;
+  let inString = false;
+
+  for (let i = start; i < html.length; i++) {
+    const char = html[i];
+
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']' && --depth === 0) {
+      return JSON.parse(html.slice(start, i + 1));
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parses YouTube's timed-text XML (<text start="1.2" dur="3.4">...</text>, in seconds)
+ */
+function parseTimedText(xml: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+
+  for (const match of xml.matchAll(/<text start="([\d.]+)"(?: dur="([\d.]+)")?[^>]*>([\s\S]*?)<\/text>/g)) {
+    // Cue text is often escaped twice (&amp;#39;), so the outer &amp; is undone first
+    const text = decodeEntities(match[3].replace(/&amp;/g, '&')).replace(/<[^>]+>/g, '').trim();
+    if (text) {
+      segments.push({
+        text,
+        offset: Math.round(Number(match[1]) * 1000),
+        duration: Math.round(Number(match[2] || 0) * 1000)
+      });
+    }
+  }
+
+  return segments;
+}
+
+function httpError(status: number, message: string): YouTubeError {
+  return new YouTubeError({ code: status === 429 ? 'RATE_LIMITED' : status >= 500 ? 'UPSTREAM_ERROR' : 'FORBIDDEN', message, status });
+}
+
+/**
+ * Explains a watch page without caption tracks from its playability status: the video may not
+ * exist, may need a sign-in (private or age-restricted), or YouTube may be showing a bot check
+ */
+function noCaptionsError(html: string, videoId: string): YouTubeError {
+  const status = html.match(/"playabilityStatus":\{"status":"([A-Z_]+)"/)?.[1];
+
+  if (status === 'ERROR') {
+    return new YouTubeError({ code: 'VIDEO_NOT_FOUND', message: `Video ${videoId} is unavailable` });
+  }
+  if (status === 'LOGIN_REQUIRED') {
+    // The same status is used for the "confirm you're not a bot" interstitial
+    return /not a bot/i.test(html)
+      ? new YouTubeError({ code: 'RATE_LIMITED', message: `YouTube asked to confirm this is not a bot while reading video ${videoId}` })
+      : new YouTubeError({ code: 'FORBIDDEN', message: `Video ${videoId} requires signing in (private or age-restricted)` });
+  }
+
+  return new YouTubeError({ code: 'CAPTIONS_DISABLED', message: `Could not find captions for video: ${videoId}` });
+}
+
+/**
+ * Fetches captions from YouTube's public timed-text endpoint, using the caption track
+ * list embedded in the video's watch page. The page is read once for both the track list and
+ * the caption URL; youtube-captions-scraper would read it a second time for every transcript.
+ */
+export class ScraperTranscriptProvider implements TranscriptProvider {
+  readonly name = 'scraper';
+
+  constructor(private executor: RequestExecutor) {}
+
+  async listTracks(videoId: string): Promise<CaptionTrack[]> {
+    return (await this.fetchPlayerTracks(videoId)).map(track => this.toCaptionTrack(track));
+  }
+
+  async fetchTranscript(videoId: string, language?: string): Promise<ProviderTranscript> {
+    const tracks = await this.fetchPlayerTracks(videoId);
+    const track = this.pickTrack(tracks, language);
+
+    if (!track) {
+      const available = tracks.map(item => `${item.languageCode}${item.kind === 'asr' ? ' (auto-generated)' : ''}`).join(', ');
+      throw new YouTubeError({
+        code: 'LANGUAGE_NOT_AVAILABLE',
+        message: `No ${language || 'default'} captions for video ${videoId} (available: ${available || 'none'})`
+      });
+    }
+
+    const xml = await this.executor.run('scraper.timedtext', async () => {
+      const response = await fetch(track.baseUrl);
+      if (!response.ok) {
+        throw httpError(response.status, `YouTube returned HTTP ${response.status} for the ${track.languageCode} caption track of ${videoId}`);
+      }
+      return response.text();
+    });
+
+    return {
+      segments: parseTimedText(xml),
+      track: this.toCaptionTrack(track)
+    };
+  }
+
+  private fetchPlayerTracks(videoId: string): Promise<PlayerCaptionTrack[]> {
+    // A bot check page counts as rate limiting, so it is retried like an HTTP 429
+    return this.executor.run('scraper.watch', async () => {
+      const response = await fetch(`${WATCH_URL}${encodeURIComponent(videoId)}`, {
+        headers: { 'Accept-Language': 'en-US,en;q=0.9' }
+      });
+      if (!response.ok) {
+        throw httpError(response.status, `YouTube returned HTTP ${response.status} for video ${videoId}`);
+      }
+
+      const html = await response.text();
+      const tracks = extractJsonArray(html, '"captionTracks":');
+      if (!tracks || !tracks.length) {
+        throw noCaptionsError(html, videoId);
+      }
+
+      return tracks as PlayerCaptionTrack[];
+    });
+  }
+
+  /**
+   * Picks the track for a language: an exact language code first, then a regional variant
+   * or base language ("en" and "en-GB" match each other), preferring uploaded over
+   * auto-generated tracks. Without a language, English is preferred, then any uploaded track.
+   */
+  private pickTrack(tracks: PlayerCaptionTrack[], language?: string): PlayerCaptionTrack | undefined {
+    const byPreference = [...tracks].sort((a, b) => Number(a.kind === 'asr') - Number(b.kind === 'asr'));
+
+    if (!language) {
+      return this.pickTrack(tracks, DEFAULT_LANGUAGE) || byPreference[0];
+    }
+
+    const wanted = language.toLowerCase();
+    const base = wanted.split('-')[0];
+
+    return byPreference.find(track => track.languageCode.toLowerCase() === wanted) ||
+      byPreference.find(track => track.languageCode.toLowerCase().split('-')[0] === base);
+  }
+
+  private toCaptionTrack(track: PlayerCaptionTrack): CaptionTrack {
+    return {
+      languageCode: track.languageCode,
+      name: track.name?.simpleText || track.name?.runs?.map(run => run.text || '').join('') || track.languageCode,
+      isAutoGenerated: track.kind === 'asr',
+      isTranslatable: !!track.isTranslatable,
+      provider: this.name
+    };
+  }
+}
@@ -0,0 +1,45 @@
+import { TranscriptProvider } from '../types/youtube-types.js';
+import { RequestExecutor } from '../utils/request-executor.js';
+import { LocalTranscriptProvider } from './local-transcript-provider.js';
+import { ScraperTranscriptProvider } from './scraper-transcript-provider.js';
+
+/**
+ * Builds the transcript providers in fallback order from the environment:
+ * TRANSCRIPT_PROVIDERS (comma-separated, e.g. "local,scraper") and TRANSCRIPT_DIR
+ * (directory for the local provider). When TRANSCRIPT_PROVIDERS is unset, local
+ * files are tried first if TRANSCRIPT_DIR is set, then the scraper.
+ * @param executor Runs the scraper's requests to YouTube
+ */
+export function loadTranscriptProviders(executor: RequestExecutor): TranscriptProvider[] {
+  const transcriptDir = process.env.TRANSCRIPT_DIR;
+  const names = (process.env.TRANSCRIPT_PROVIDERS || (transcriptDir ? 'local,scraper' : 'scraper'))
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const providers: TranscriptProvider[] = [];
+
+  for (const name of names) {
+    switch (name) {
+      case 'scraper':
+        providers.push(new ScraperTranscriptProvider(executor));
+        break;
+      case 'local':
+        if (!transcriptDir) {
+          console.error('Transcript provider "local" requires TRANSCRIPT_DIR, skipping it');
+          break;
+        }
+        providers.push(new LocalTranscriptProvider(transcriptDir));
+        break;
+      default:
+        console.error(`Unknown transcript provider "${name}", skipping it`);
+    }
+  }
+
+  if (!providers.length) {
+    console.error('No usable transcript providers configured, falling back to the scraper');
+    providers.push(new ScraperTranscriptProvider(executor));
+  }
+
+  return providers;
+}
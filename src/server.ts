@@ -0,0 +1,1509 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import dotenv from 'dotenv';
+import { YouTubeService } from './youtube-service.js';
+import { TranscriptOptions, YouTubeError } from './types/youtube-types.js';
+import { isLanguageCode, parseChannelReference, parsePlaylistId, parseVideoId } from './utils/identifiers.js';
+import { parseDateFilter } from './utils/date-filters.js';
+import { describeError, formatErrorText } from './utils/errors.js';
+import {
+  analyzeChannelVideosOutputSchema,
+  channelStatsOutputSchema,
+  compareVideosOutputSchema,
+  enhancedTranscriptOutputSchema,
+  likedVideosOutputSchema,
+  myPlaylistsOutputSchema,
+  mySubscriptionsOutputSchema,
+  playlistChangeOutputSchema,
+  searchVideosOutputSchema,
+  trendingVideosOutputSchema,
+  videoStatsOutputSchema
+} from './output-schemas.js';
+import { DEFAULT_CHUNK_OVERLAP_TOKENS, DEFAULT_CHUNK_TOKENS, chunkTranscript, estimateTokens, selectChunk } from './utils/transcript-chunks.js';
+
+// Load environment variables
+dotenv.config();
+
+// Initialize the YouTube service, shared by every server instance so caches and the quota ledger are shared too
+const youtubeService = new YouTubeService();
+
+/**
+ * Wraps a tool handler so that its API calls are attributed to the tool in the quota ledger.
+ * The tool is refused up front when its estimated cost exceeds the remaining daily budget.
+ */
+function withQuota<Args>(
+  tool: string,
+  estimatedUnits: number | ((args: Args) => number),
+  handler: (args: Args) => Promise<CallToolResult>
+): (args: Args) => Promise<CallToolResult> {
+  return async (args: Args) => {
+    try {
+      const units = typeof estimatedUnits === 'function' ? estimatedUnits(args) : estimatedUnits;
+      youtubeService.quota.assertBudget(tool, units);
+    } catch (error) {
+      return toolError(`Cannot run ${tool}`, error);
+    }
+
+    return youtubeService.quota.runWithTool(tool, () => handler(args));
+  };
+}
+
+/**
+ * Builds the error result of a tool: the classified error as text, and as structuredContent
+ * ({ error: { code, message, retryable, hint } }) for clients that read it
+ * @param context What the tool was doing, e.g. "Error comparing videos"
+ */
+function toolError(context: string, error: unknown): CallToolResult {
+  const info = describeError(context, error);
+  return {
+    content: [{
+      type: 'text',
+      text: formatErrorText(info)
+    }],
+    structuredContent: { error: info },
+    isError: true
+  };
+}
+
+/**
+ * Builds the contents of a resource read that failed, with the same classified error text as tools
+ */
+function resourceError(uri: URL, context: string, error: unknown) {
+  return {
+    contents: [{
+      uri: uri.href,
+      text: formatErrorText(describeError(context, error))
+    }]
+  };
+}
+
+/**
+ * Builds a prompt whose only message explains why the prompt could not be created
+ */
+function promptError(context: string, error: unknown) {
+  return {
+    messages: [{
+      role: 'user' as const,
+      content: {
+        type: 'text' as const,
+        text: formatErrorText(describeError(context, error))
+      }
+    }]
+  };
+}
+
+/**
+ * Builds a tool result carrying structuredContent for clients that read the declared output schema,
+ * and its JSON rendering as text for those that do not
+ * @param text Text rendering, when older clients expect a different shape than the structured object
+ */
+function structuredResult(data: object, text: string = JSON.stringify(data, null, 2)): CallToolResult {
+  return {
+    content: [{
+      type: 'text',
+      text
+    }],
+    structuredContent: data as Record<string, unknown>
+  };
+}
+
+/**
+ * Attributes the API calls of a resource or prompt handler to the given name in the quota ledger
+ */
+function attributedTo<Args extends unknown[], Result>(
+  name: string,
+  handler: (...args: Args) => Promise<Result>
+): (...args: Args) => Promise<Result> {
+  return (...args: Args) => youtubeService.quota.runWithTool(name, () => handler(...args));
+}
+
+/**
+ * Builds a string schema that accepts a bare ID or a pasted URL and normalizes it to the ID,
+ * reporting the parser's message as the validation error
+ */
+function identifierSchema(parse: (input: string) => unknown, description: string, normalize: boolean) {
+  return z.string().min(1).describe(description).transform((value, ctx) => {
+    try {
+      const parsed = parse(value);
+      return normalize ? parsed as string : value.trim();
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: error instanceof Error ? error.message : String(error)
+      });
+      return z.NEVER;
+    }
+  });
+}
+
+/**
+ * Reads a video ID resource variable. Template variables also capture any query string
+ * (?language=...), so it is cut off before the ID is parsed.
+ */
+function resourceVideoId(videoId: string | string[]): string {
+  const value = Array.isArray(videoId) ? videoId[0] : videoId;
+  return parseVideoId(decodeURIComponent(value.split('?')[0]));
+}
+
+/**
+ * Reads a normalize query parameter, ignoring unknown values
+ */
+function normalizeParam(url: URL): TranscriptOptions['normalize'] {
+  const normalize = url.searchParams.get('normalize');
+  return normalize === 'sentences' || normalize === 'paragraphs' ? normalize : undefined;
+}
+
+const videoIdSchema = identifierSchema(parseVideoId, 'YouTube video ID or URL (watch, youtu.be, /shorts/, /live/ or /embed/)', true);
+const playlistIdSchema = identifierSchema(parsePlaylistId, 'YouTube playlist ID or any URL with a list= parameter', true);
+// Channel handles need an API lookup, so the schema only checks the syntax; handlers call resolveChannelId
+const channelIdSchema = identifierSchema(parseChannelReference, 'YouTube channel ID, @handle, or channel URL (/channel/, /@handle, /c/, /user/)', false);
+
+/**
+ * Date filter accepting ISO dates and relative values such as "last 90 days", parsed when the tool is called
+ */
+const dateFilterSchema = z.string().min(1)
+  .describe('ISO date (2024-01-31) or relative value such as "last 90 days", "6 months ago" or "1y"')
+  .transform((value, ctx) => {
+    try {
+      return parseDateFilter(value);
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: error instanceof Error ? error.message : String(error)
+      });
+      return z.NEVER;
+    }
+  });
+
+/**
+ * Transcript language: one code, or an ordered fallback list tried until a track is found
+ */
+const languageCodeSchema = z.string().refine(isLanguageCode, 'Expected a language code such as "en" or "pt-BR"');
+const languageSchema = z.union([languageCodeSchema, z.array(languageCodeSchema).min(1).max(10)])
+  .describe('Language code (e.g. "en") or ordered fallback list (e.g. ["de", "en"]); regional variants such as "en-GB" match "en" and vice versa');
+
+// Transcript normalization for the tools that return caption text
+const normalizeSchema = z.enum(['sentences', 'paragraphs'])
+  .describe('Rebuild caption fragments into sentences or paragraphs: removes rolling auto-caption repeats and restores punctuation, keeping each sentence at the time it starts');
+
+export interface ServerOptions {
+  accountTools?: boolean; // Register the OAuth account and playlist write tools (default: true)
+}
+
+/**
+ * Creates an MCP server with every YouTube resource, tool and prompt registered, the account
+ * tools unless options.accountTools is false. Each transport connection (stdio, or one HTTP
+ * session) gets its own instance.
+ */
+export function createServer(options: ServerOptions = {}): McpServer {
+  const server = new McpServer({
+    name: 'YouTube MCP Server',
+    version: '1.0.0'
+  });
+
+  // Define resources
+  server.resource(
+    'video',
+    new ResourceTemplate('youtube://video/{videoId}', { list: undefined }),
+    {
+      description: 'Get detailed information about a specific YouTube video by ID'
+    },
+    attributedTo('youtube://video', async (uri, { videoId }) => {
+      try {
+        // Ensure videoId is a single string, then accept URL forms as well as bare IDs
+        const videoIdStr = parseVideoId(decodeURIComponent(Array.isArray(videoId) ? videoId[0] : videoId));
+        const videoData = await youtubeService.getVideoDetails(videoIdStr);
+        const video = videoData.items?.[0];
+
+        if (!video) {
+          return resourceError(uri, 'Error fetching video details', new YouTubeError({ code: 'VIDEO_NOT_FOUND', message: `Video with ID ${videoIdStr} not found.` }));
+        }
+
+        const details = {
+          id: video.id,
+          title: video.snippet?.title,
+          description: video.snippet?.description,
+          publishedAt: video.snippet?.publishedAt,
+          channelId: video.snippet?.channelId,
+          channelTitle: video.snippet?.channelTitle,
+          viewCount: video.statistics?.viewCount,
+          likeCount: video.statistics?.likeCount,
+          commentCount: video.statistics?.commentCount,
+          duration: video.contentDetails?.duration
+        };
+
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify(details, null, 2)
+          }]
+        };
+      } catch (error) {
+        return resourceError(uri, 'Error fetching video details', error);
+      }
+    })
+  );
+
+  server.resource(
+    'channel',
+    new ResourceTemplate('youtube://channel/{channelId}', { list: undefined }),
+    {
+      description: 'Get information about a specific YouTube channel by ID'
+    },
+    attributedTo('youtube://channel', async (uri, { channelId }) => {
+      try {
+        // Ensure channelId is a single string, then resolve handles and channel URLs
+        const channelIdStr = await youtubeService.resolveChannelId(decodeURIComponent(Array.isArray(channelId) ? channelId[0] : channelId));
+        const channelData = await youtubeService.getChannelDetails(channelIdStr);
+        const channel = channelData.items?.[0];
+
+        if (!channel) {
+          return resourceError(uri, 'Error fetching channel details', new YouTubeError({ code: 'CHANNEL_NOT_FOUND', message: `Channel with ID ${channelIdStr} not found.` }));
+        }
+
+        const details = {
+          id: channel.id,
+          title: channel.snippet?.title,
+          description: channel.snippet?.description,
+          publishedAt: channel.snippet?.publishedAt,
+          subscriberCount: channel.statistics?.subscriberCount,
+          videoCount: channel.statistics?.videoCount,
+          viewCount: channel.statistics?.viewCount
+        };
+
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify(details, null, 2)
+          }]
+        };
+      } catch (error) {
+        return resourceError(uri, 'Error fetching channel details', error);
+      }
+    })
+  );
+
+  server.resource(
+    'transcript',
+    new ResourceTemplate('youtube://transcript/{videoId}', { list: undefined }),
+    {
+      description: 'Get the transcript/captions for a specific YouTube video with optional language parameter'
+    },
+    attributedTo('youtube://transcript', async (uri, { videoId }) => {
+      try {
+        // Parse parameters from the URL
+        const url = new URL(uri.href);
+        const language = url.searchParams.get('language');
+
+        // Ensure videoId is a single string, then accept URL forms as well as bare IDs
+        const videoIdStr = resourceVideoId(videoId);
+
+        // Get video details for metadata; without them (no API key, offline) the transcript is still served
+        const videoData = await youtubeService.tryGetVideoDetails(videoIdStr);
+        const video = videoData?.items?.[0];
+
+        if (videoData && !video) {
+          return resourceError(uri, 'Error fetching transcript', new YouTubeError({ code: 'VIDEO_NOT_FOUND', message: `Video with ID ${videoIdStr} not found.` }));
+        }
+
+        try {
+          // Get transcript; ?language= may be a comma-separated fallback list
+          const { segments: transcriptData, track } = await youtubeService.getTranscriptWithTrack(videoIdStr, {
+            language: language || undefined,
+            normalize: normalizeParam(url)
+          });
+
+          // Format the transcript with timestamps
+          const formattedTranscript = transcriptData.map(caption =>
+            `[${formatTime(caption.offset)}] ${caption.text}`
+          ).join('\n');
+
+          // Create metadata; long transcripts can be read page by page from the chunk resource
+          const metadata = {
+            videoId: videoIdStr,
+            title: video?.snippet?.title || videoIdStr,
+            channelTitle: video?.snippet?.channelTitle,
+            language: track.languageCode,
+            autoGenerated: track.isAutoGenerated,
+            captionCount: transcriptData.length,
+            tokenEstimate: estimateTokens(formattedTranscript),
+            totalChunks: chunkTranscript(transcriptData).length,
+            chunkUri: `youtube://transcript/${videoIdStr}/chunk/1${url.search}`
+          };
+
+          return {
+            contents: [{
+              uri: uri.href,
+              text: `# Transcript for: ${metadata.title}\n\n${formattedTranscript}`
+            }],
+            metadata
+          };
+        } catch (error) {
+          return resourceError(uri, `Transcript not available for video ID ${videoIdStr}`, error);
+        }
+      } catch (error) {
+        return resourceError(uri, 'Error fetching transcript', error);
+      }
+    })
+  );
+
+  server.resource(
+    'transcript-chunk',
+    new ResourceTemplate('youtube://transcript/{videoId}/chunk/{chunk}', { list: undefined }),
+    {
+      description: `One page of a video transcript, split by approximate token count so long videos fit a model context. Chunks are numbered from 1 and each repeats the end of the previous one. Query parameters: language, normalize, maxTokens (default ${DEFAULT_CHUNK_TOKENS}) and overlap (default ${DEFAULT_CHUNK_OVERLAP_TOKENS} tokens)`
+    },
+    attributedTo('youtube://transcript/chunk', async (uri, { videoId, chunk }) => {
+      try {
+        const url = new URL(uri.href);
+        const language = url.searchParams.get('language');
+        const maxTokens = Number(url.searchParams.get('maxTokens')) || undefined;
+        const overlap = url.searchParams.get('overlap');
+
+        const videoIdStr = resourceVideoId(videoId);
+        const chunkNumber = parseInt(Array.isArray(chunk) ? chunk[0] : chunk, 10);
+
+        const videoData = await youtubeService.tryGetVideoDetails(videoIdStr);
+        const video = videoData?.items?.[0];
+
+        if (videoData && !video) {
+          return resourceError(uri, 'Error fetching transcript chunk', new YouTubeError({ code: 'VIDEO_NOT_FOUND', message: `Video with ID ${videoIdStr} not found.` }));
+        }
+
+        const { segments, track } = await youtubeService.getTranscriptWithTrack(videoIdStr, {
+          language: language || undefined,
+          normalize: normalizeParam(url)
+        });
+        const { segments: chunkSegments, ...page } = selectChunk(
+          chunkTranscript(segments, { maxTokens, overlapTokens: overlap === null ? undefined : Number(overlap) }),
+          chunkNumber
+        );
+
+        const formattedChunk = chunkSegments.map(caption =>
+          `[${formatTime(caption.offset)}] ${caption.text}`
+        ).join('\n');
+
+        const metadata = {
+          videoId: videoIdStr,
+          title: video?.snippet?.title || videoIdStr,
+          language: track.languageCode,
+          ...page,
+          nextChunkUri: page.chunk < page.totalChunks ? `youtube://transcript/${videoIdStr}/chunk/${page.chunk + 1}${url.search}` : null
+        };
+
+        return {
+          contents: [{
+            uri: uri.href,
+            text: `# Transcript for: ${metadata.title} (chunk ${page.chunk} of ${page.totalChunks}, ${formatTime(page.startTime * 1000)} - ${formatTime(page.endTime * 1000)})\n\n${formattedChunk}`
+          }],
+          metadata
+        };
+      } catch (error) {
+        return resourceError(uri, 'Error fetching transcript chunk', error);
+      }
+    })
+  );
+
+  server.resource(
+    'playlist',
+    new ResourceTemplate('youtube://playlist/{playlistId}', { list: undefined }),
+    {
+      description: 'Get a YouTube playlist with its ordered items and per-video duration and statistics'
+    },
+    attributedTo('youtube://playlist', async (uri, { playlistId }) => {
+      try {
+        // Ensure playlistId is a single string, then accept URL forms as well as bare IDs
+        const playlistIdStr = parsePlaylistId(decodeURIComponent(Array.isArray(playlistId) ? playlistId[0] : playlistId));
+        const playlist = await youtubeService.getPlaylist(playlistIdStr);
+
+        if (!playlist) {
+          return resourceError(uri, 'Error fetching playlist', new YouTubeError({ code: 'PLAYLIST_NOT_FOUND', message: `Playlist with ID ${playlistIdStr} not found.` }));
+        }
+
+        return {
+          contents: [{
+            uri: uri.href,
+            text: JSON.stringify(playlist, null, 2)
+          }]
+        };
+      } catch (error) {
+        return resourceError(uri, 'Error fetching playlist', error);
+      }
+    })
+  );
+
+  // Define tools
+  server.registerTool(
+    'search-videos',
+    {
+      description: 'Search for YouTube videos with advanced filtering options. Supports parameters: \
+- query: Search term (required) \
+- maxResults: Number of results to return (1-50) \
+- channelId: Filter by specific channel \
+- order: Sort by date, rating, viewCount, relevance, title \
+- type: Filter by resource type (video, channel, playlist) \
+- videoDuration: Filter by length (short: <4min, medium: 4-20min, long: >20min) \
+- publishedAfter/publishedBefore: Filter by publish date (ISO format) \
+- videoCaption: Filter by caption availability \
+- videoDefinition: Filter by quality (standard/high) \
+- regionCode: Filter by country (ISO country code) \
+- pageToken: Cursor from a previous response (nextPageToken) to fetch the next page \
+- totalResults: Collect this many unique results (up to 500) by paging automatically; stops early if the daily quota budget would be exceeded. Each page costs 100 quota units',
+      inputSchema: {
+        query: z.string().min(1),
+        maxResults: z.number().min(1).max(50).optional(),
+        channelId: channelIdSchema.optional(),
+        order: z.enum(['date', 'rating', 'relevance', 'title', 'videoCount', 'viewCount']).optional(),
+        type: z.enum(['video', 'channel', 'playlist']).optional(),
+        videoDuration: z.enum(['any', 'short', 'medium', 'long']).optional(),
+        publishedAfter: z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/).optional(),
+        publishedBefore: z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/).optional(),
+        videoCaption: z.enum(['any', 'closedCaption', 'none']).optional(),
+        videoDefinition: z.enum(['any', 'high', 'standard']).optional(),
+        regionCode: z.string().length(2).optional(),
+        pageToken: z.string().optional(),
+        totalResults: z.number().min(1).max(500).optional()
+      },
+      outputSchema: searchVideosOutputSchema
+    },
+    withQuota('search-videos', 100, async ({ query, maxResults = 10, channelId, order, type, videoDuration, publishedAfter, publishedBefore, videoCaption, videoDefinition, regionCode, pageToken, totalResults }) => {
+      try {
+        const searchOptions = {
+          channelId: channelId ? await youtubeService.resolveChannelId(channelId) : undefined,
+          order,
+          type,
+          videoDuration,
+          publishedAfter,
+          publishedBefore,
+          videoCaption,
+          videoDefinition,
+          regionCode,
+          pageToken
+        };
+
+        const searchResults = totalResults
+          ? await youtubeService.searchVideosPaged(query, totalResults, searchOptions)
+          : await youtubeService.searchVideos(query, maxResults, searchOptions);
+
+        return structuredResult(searchResults);
+      } catch (error) {
+        return toolError('Error searching videos', error);
+      }
+    })
+  );
+
+  server.tool(
+    'get-video-comments',
+    'Retrieve comments for a specific YouTube video with sorting options. By default returns one page of comment threads (use pageToken to continue). Set crawl to true to walk every thread page and fetch all replies of each thread, up to maxComments (default: 500, max: 10000), returned as a nested tree or a flat list (layout) with author, likeCount, and published/updated times. Crawling costs 1 quota unit per 100 threads plus 1 per 100 replies of threads with more than 5 replies.',
+    {
+      videoId: videoIdSchema,
+      maxResults: z.number().min(1).max(100).optional(),
+      order: z.enum(['time', 'relevance']).optional(),
+      includeReplies: z.boolean().optional(),
+      pageToken: z.string().optional(),
+      crawl: z.boolean().optional(),
+      maxComments: z.number().min(1).max(10000).optional(),
+      layout: z.enum(['nested', 'flat']).optional()
+    },
+    withQuota('get-video-comments', ({ crawl, maxComments = 500 }) => crawl ? Math.ceil(maxComments / 100) : 1, async ({ videoId, maxResults = 20, order = 'relevance', includeReplies, pageToken, crawl = false, maxComments, layout }) => {
+      try {
+        const commentsData = crawl
+          ? await youtubeService.crawlComments(videoId, {
+            maxComments,
+            order,
+            includeReplies: includeReplies ?? true,
+            layout
+          })
+          : await youtubeService.getComments(videoId, maxResults, {
+            order,
+            includeReplies: includeReplies ?? false,
+            pageToken
+          });
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(commentsData, null, 2)
+          }]
+        };
+      } catch (error) {
+        return toolError('Error fetching comments', error);
+      }
+    })
+  );
+
+  server.tool(
+    'get-video-transcript',
+    'Get the transcript/captions for a YouTube video with optional language selection. This tool retrieves the full transcript of a video with timestamped captions. Each caption includes the text and its timestamp in the video. Parameters: videoId (required) - The YouTube video ID; language (optional) - Language code for the transcript (e.g., "en", "ko", "ja"), or an ordered fallback list such as ["ko", "en"] where the first available language wins. If not specified, the default language for the video will be used; normalize (optional) - "sentences" or "paragraphs" to merge auto-caption fragments into punctuated sentences with rolling repeats removed. Returns a line naming the caption track used, followed by each caption line preceded by its timestamp.',
+    {
+      videoId: videoIdSchema,
+      language: languageSchema.optional(),
+      normalize: normalizeSchema.optional()
+    },
+    withQuota('get-video-transcript', 0, async ({ videoId, language, normalize }) => {
+      try {
+        const { segments: transcriptData, track } = await youtubeService.getTranscriptWithTrack(videoId, { language, normalize });
+
+        // Optionally format the transcript for better readability
+        const formattedTranscript = transcriptData.map(caption =>
+          `[${formatTime(caption.offset)}] ${caption.text}`
+        ).join('\n');
+
+        const trackLine = `Track: ${track.name} (${track.languageCode}${track.isAutoGenerated ? ', auto-generated' : ''}) from ${track.provider}`;
+
+        return {
+          content: [{
+            type: 'text',
+            text: `${trackLine}\n\n${formattedTranscript}`
+          }]
+        };
+      } catch (error) {
+        return toolError('Error fetching transcript', error);
+      }
+    })
+  );
+
+  server.tool(
+    'search-transcripts',
+    'Full-text search across every transcript this server has fetched or ingested, ranked with BM25. Answers questions like "which of these talks mentions X, and where?". Parameters: query (required) - Search terms; wrap words in double quotes to require an exact phrase (e.g. "machine learning" pipeline); videoIds (optional) - Up to 200 video IDs or URLs to fetch and index first, which also limits the search to those videos; language (optional) - Transcript language, or ordered fallback list, for videos fetched by this call; limit (optional) - Maximum number of hits (default 20); maxHitsPerVideo (optional) - Maximum hits from one video (default 3). Each hit has the videoId, timestamp, snippet and a deep link to that moment.',
+    {
+      query: z.string().min(1),
+      videoIds: z.array(videoIdSchema).min(1).max(200).optional(),
+      language: languageSchema.optional(),
+      limit: z.number().min(1).max(100).optional(),
+      maxHitsPerVideo: z.number().min(1).max(20).optional()
+    },
+    withQuota('search-transcripts', 0, async ({ query, videoIds, language, limit, maxHitsPerVideo }) => {
+      try {
+        const result = await youtubeService.searchTranscripts(query, { videoIds, language, limit, maxHitsPerVideo });
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      } catch (error) {
+        return toolError('Error searching transcripts', error);
+      }
+    })
+  );
+
+  server.tool(
+    'list-caption-tracks',
+    'List the caption tracks available for a YouTube video from every transcript provider, without downloading any captions. Use it to see which languages exist before asking for a transcript. Parameters: videoId (required) - The YouTube video ID or URL. Returns each track\'s language code, name, whether it is auto-generated (ASR) or uploaded, whether YouTube can translate it, and the provider offering it, plus any provider that failed to list tracks.',
+    {
+      videoId: videoIdSchema
+    },
+    withQuota('list-caption-tracks', 0, async ({ videoId }) => {
+      try {
+        const result = await youtubeService.listCaptionTracks(videoId);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      } catch (error) {
+        return toolError('Error listing caption tracks', error);
+      }
+    })
+  );
+
+  server.tool(
+    'get-bilingual-transcript',
+    'Fetch two caption tracks of the same video (e.g. the original and a translation) and align them side by side by time overlap. Cues that one language splits and the other keeps whole are merged into one row, and cues without a counterpart get a row with the other side empty. Parameters: videoId (required) - The YouTube video ID or URL; languageA (required) and languageB (required) - Language codes or ordered fallback lists for the two columns; normalize (optional) - "sentences" or "paragraphs" to rebuild auto-caption fragments first; format (optional) - "json" (default) for the rows, "markdown" for a table with time, languageA and languageB columns, or "srt" for a dual-language subtitle file with both lines in every cue.',
+    {
+      videoId: videoIdSchema,
+      languageA: languageSchema,
+      languageB: languageSchema,
+      normalize: normalizeSchema.optional(),
+      format: z.enum(['json', 'markdown', 'srt']).optional()
+    },
+    withQuota('get-bilingual-transcript', 0, async ({ videoId, languageA, languageB, normalize, format = 'json' }) => {
+      try {
+        const result = await youtubeService.getBilingualTranscript(videoId, languageA, languageB, { normalize, format });
+
+        return {
+          content: [{
+            type: 'text',
+            text: format === 'json' ? JSON.stringify(result, null, 2) : result.text || ''
+          }]
+        };
+      } catch (error) {
+        return toolError('Error aligning transcripts', error);
+      }
+    })
+  );
+
+  // New tools
+  server.registerTool(
+    'get-video-stats',
+    {
+      description: 'Get statistical information for a specific YouTube video (views, likes, comments, upload date, etc.)',
+      inputSchema: {
+        videoId: videoIdSchema
+      },
+      outputSchema: videoStatsOutputSchema
+    },
+    withQuota('get-video-stats', 1, async ({ videoId }) => {
+      try {
+        const videoData = await youtubeService.getVideoDetails(videoId);
+        const video = videoData.items?.[0];
+
+        if (!video) {
+          return toolError('Error fetching video statistics', new YouTubeError({ code: 'VIDEO_NOT_FOUND', message: `Video with ID ${videoId} not found.` }));
+        }
+
+        const stats = {
+          videoId: video.id,
+          title: video.snippet?.title,
+          publishedAt: video.snippet?.publishedAt,
+          channelTitle: video.snippet?.channelTitle,
+          viewCount: video.statistics?.viewCount,
+          likeCount: video.statistics?.likeCount,
+          commentCount: video.statistics?.commentCount,
+          duration: video.contentDetails?.duration
+        };
+
+        return structuredResult(stats);
+      } catch (error) {
+        return toolError('Error fetching video statistics', error);
+      }
+    })
+  );
+
+  server.tool(
+    'get-video-chapters',
+    'Get the chapters a YouTube video declares in its description ("0:00 Intro", "12:34 Benchmarks", h:mm:ss supported). The list must start at 0:00 and its timestamps must increase; otherwise no chapters are returned and the reason is given in error. Each chapter has its title, start and end time in seconds, and the timestamp as written. To read the transcript grouped by chapter, use get-segmented-transcript or enhanced-transcript with method "chapters". Parameters: videoId (required) - The YouTube video ID.',
+    {
+      videoId: videoIdSchema
+    },
+    withQuota('get-video-chapters', 1, async ({ videoId }) => {
+      try {
+        const chapters = await youtubeService.getVideoChapters(videoId);
+
+        if (!chapters) {
+          return toolError('Error fetching video chapters', new YouTubeError({ code: 'VIDEO_NOT_FOUND', message: `Video with ID ${videoId} not found.` }));
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(chapters, null, 2)
+          }]
+        };
+      } catch (error) {
+        return toolError('Error fetching video chapters', error);
+      }
+    })
+  );
+
+  server.registerTool(
+    'get-channel-stats',
+    {
+      description: 'Get statistical information for a specific YouTube channel (subscriber count, total views, video count, etc.)',
+      inputSchema: {
+        channelId: channelIdSchema
+      },
+      outputSchema: channelStatsOutputSchema
+    },
+    withQuota('get-channel-stats', 1, async ({ channelId }) => {
+      try {
+        const channelData = await youtubeService.getChannelDetails(await youtubeService.resolveChannelId(channelId));
+        const channel = channelData.items?.[0];
+
+        if (!channel) {
+          return toolError('Error fetching channel statistics', new YouTubeError({ code: 'CHANNEL_NOT_FOUND', message: `Channel with ID ${channelId} not found.` }));
+        }
+
+        const stats = {
+          channelId: channel.id,
+          title: channel.snippet?.title,
+          createdAt: channel.snippet?.publishedAt,
+          subscriberCount: channel.statistics?.subscriberCount,
+          videoCount: channel.statistics?.videoCount,
+          viewCount: channel.statistics?.viewCount,
+          thumbnailUrl: channel.snippet?.thumbnails?.default?.url
+        };
+
+        return structuredResult(stats);
+      } catch (error) {
+        return toolError('Error fetching channel statistics', error);
+      }
+    })
+  );
+
+  server.registerTool(
+    'compare-videos',
+    {
+      description: 'Compare statistics for multiple YouTube videos. All videos are fetched in a single request; IDs that return no video are listed in missingIds.',
+      inputSchema: {
+        videoIds: z.array(videoIdSchema).min(2).max(10)
+      },
+      outputSchema: compareVideosOutputSchema
+    },
+    withQuota('compare-videos', 1, async ({ videoIds }) => {
+      try {
+        const { items, missingIds } = await youtubeService.getVideosDetails(videoIds);
+
+        const results = items.map(video => ({
+          videoId: video.id,
+          title: video.snippet?.title,
+          viewCount: Number(video.statistics?.viewCount || 0),
+          likeCount: Number(video.statistics?.likeCount || 0),
+          commentCount: Number(video.statistics?.commentCount || 0),
+          publishedAt: video.snippet?.publishedAt
+        }));
+
+        return structuredResult({ videos: results, missingIds });
+      } catch (error) {
+        return toolError('Error comparing videos', error);
+      }
+    })
+  );
+
+  server.tool(
+    'get-playlist',
+    'Get a YouTube playlist with its metadata and every item in playlist order. Each item includes the video duration and statistics (views, likes, comments). Deleted or private videos are kept in place and marked as unavailable. Paging stops early at 5,000 items or when the daily quota budget cannot pay for another page; stoppedReason then says why and totalItemCount gives the full size. Parameters: playlistId (required) - The YouTube playlist ID.',
+    {
+      playlistId: playlistIdSchema
+    },
+    withQuota('get-playlist', 3, async ({ playlistId }) => {
+      try {
+        const playlist = await youtubeService.getPlaylist(playlistId);
+
+        if (!playlist) {
+          return toolError('Error fetching playlist', new YouTubeError({ code: 'PLAYLIST_NOT_FOUND', message: `Playlist with ID ${playlistId} not found.` }));
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(playlist, null, 2)
+          }]
+        };
+      } catch (error) {
+        return toolError('Error fetching playlist', error);
+      }
+    })
+  );
+
+  server.registerTool(
+    'get-trending-videos',
+    {
+      description: 'Retrieve trending videos by region and category. This helps analyze current popular content trends.',
+      inputSchema: {
+        regionCode: z.string().length(2).optional(),
+        categoryId: z.string().optional(),
+        maxResults: z.number().min(1).max(50).optional()
+      },
+      outputSchema: trendingVideosOutputSchema
+    },
+    withQuota('get-trending-videos', 1, async ({ regionCode = 'US', categoryId, maxResults = 10 }) => {
+      try {
+        const response = await youtubeService.request('videos.list', () => youtubeService.youtube.videos.list({
+          part: ['snippet', 'contentDetails', 'statistics'],
+          chart: 'mostPopular',
+          regionCode,
+          videoCategoryId: categoryId,
+          maxResults
+        }));
+
+        const trendingVideos = (response.data.items || []).map(video => ({
+          videoId: video.id,
+          title: video.snippet?.title,
+          channelTitle: video.snippet?.channelTitle,
+          publishedAt: video.snippet?.publishedAt,
+          viewCount: video.statistics?.viewCount,
+          likeCount: video.statistics?.likeCount,
+          commentCount: video.statistics?.commentCount
+        }));
+
+        // The text keeps the bare array older clients parse
+        return structuredResult({ regionCode, categoryId, videos: trendingVideos }, JSON.stringify(trendingVideos, null, 2));
+      } catch (error) {
+        return toolError('Error fetching trending videos', error);
+      }
+    })
+  );
+
+  server.tool(
+    'get-video-categories',
+    'Retrieve available video categories for a specific region',
+    {
+      regionCode: z.string().length(2).optional()
+    },
+    withQuota('get-video-categories', 1, async ({ regionCode = 'US' }) => {
+      try {
+        const response = await youtubeService.request('videoCategories.list', () => youtubeService.youtube.videoCategories.list({
+          part: ['snippet'],
+          regionCode
+        }));
+
+        const categories = response.data.items?.map(category => ({
+          id: category.id,
+          title: category.snippet?.title
+        }));
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(categories, null, 2)
+          }]
+        };
+      } catch (error) {
+        return toolError('Error fetching video categories', error);
+      }
+    })
+  );
+
+  server.tool(
+    'get-quota-usage',
+    'Report YouTube Data API quota usage recorded by this server, grouped by day (Pacific Time, matching the daily quota reset), by tool and by API endpoint. Includes the configured daily budget and the remaining units. This tool does not consume quota. Parameters: days (optional) - Number of days of history to include, today first (default: 1, max: 30).',
+    {
+      days: z.number().min(1).max(30).optional()
+    },
+    async ({ days = 1 }) => {
+      try {
+        const report = youtubeService.quota.getReport(days);
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(days === 1 ? report[0] : report, null, 2)
+          }]
+        };
+      } catch (error) {
+        return toolError('Error fetching quota usage', error);
+      }
+    }
+  );
+
+  server.tool(
+    'get-api-key-status',
+    'Report the health of the configured YouTube Data API keys: which key is in use, which ran out of daily quota and when they reset (midnight Pacific Time), and which were rejected, with each key\'s request and failure counts since the server started. Keys are shown by position and last four characters only. This tool does not consume quota.',
+    {},
+    async () => {
+      try {
+        const keys = youtubeService.apiKeys.getStatus();
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              configuredKeys: keys.length,
+              usableKeys: keys.filter(key => key.state === 'active').length,
+              keys
+            }, null, 2)
+          }]
+        };
+      } catch (error) {
+        return toolError('Error fetching API key status', error);
+      }
+    }
+  );
+
+  if (options.accountTools !== false) {
+    registerAccountTools(server);
+  }
+
+  server.registerTool(
+    'analyze-channel-videos',
+    {
+      description: 'Analyze videos from a specific channel to identify performance trends. Reads the channel\'s uploads playlist, so the whole catalogue can be analyzed at about 1 quota unit per 50 videos. Parameters: channelId (required) - Channel ID, @handle, or channel URL; maxResults (optional) - Number of videos to list after sorting (default 10); sortBy (optional) - "date", "viewCount" or "rating" (likes); publishedAfter/publishedBefore (optional) - ISO date or relative value such as "last 90 days", "6 months ago" or "1y". Averages cover every video in the date window, not only the listed ones.',
+      inputSchema: {
+        channelId: channelIdSchema,
+        maxResults: z.number().min(1).max(500).optional(),
+        sortBy: z.enum(['date', 'viewCount', 'rating']).optional(),
+        publishedAfter: dateFilterSchema.optional(),
+        publishedBefore: dateFilterSchema.optional()
+      },
+      outputSchema: analyzeChannelVideosOutputSchema
+    },
+    withQuota('analyze-channel-videos', 3, async ({ channelId, maxResults = 10, sortBy = 'date', publishedAfter, publishedBefore }) => {
+      try {
+        const resolvedChannelId = await youtubeService.resolveChannelId(channelId);
+
+        // Page through every upload in the date window, then sort in memory
+        const uploads = await youtubeService.getChannelUploads(resolvedChannelId, { publishedAfter, publishedBefore });
+
+        if (!uploads) {
+          return toolError('Error analyzing channel videos', new YouTubeError({ code: 'CHANNEL_NOT_FOUND', message: `Channel ${channelId} not found` }));
+        }
+
+        interface VideoAnalysisItem {
+          videoId: string;
+          title: string | null | undefined;
+          publishedAt: string | null | undefined;
+          duration: string | null | undefined;
+          viewCount: number;
+          likeCount: number;
+          commentCount: number;
+        }
+
+        const videoAnalysis: VideoAnalysisItem[] = uploads.items.map(video => ({
+          videoId: video.id || '',
+          title: video.snippet?.title,
+          publishedAt: video.snippet?.publishedAt,
+          duration: video.contentDetails?.duration,
+          viewCount: Number(video.statistics?.viewCount || 0),
+          likeCount: Number(video.statistics?.likeCount || 0),
+          commentCount: Number(video.statistics?.commentCount || 0)
+        }));
+
+        const sortKeys: Record<typeof sortBy, (video: VideoAnalysisItem) => number> = {
+          date: video => Date.parse(video.publishedAt || '') || 0,
+          viewCount: video => video.viewCount,
+          rating: video => video.likeCount
+        };
+        const sortKey = sortKeys[sortBy];
+        const sorted = [...videoAnalysis].sort((a, b) => sortKey(b) - sortKey(a));
+
+        // Calculate averages (zero for an empty date window, keeping the output schema's numbers)
+        const count = videoAnalysis.length || 1;
+        const avgViews = videoAnalysis.reduce((sum: number, video: VideoAnalysisItem) => sum + video.viewCount, 0) / count;
+        const avgLikes = videoAnalysis.reduce((sum: number, video: VideoAnalysisItem) => sum + video.likeCount, 0) / count;
+        const avgComments = videoAnalysis.reduce((sum: number, video: VideoAnalysisItem) => sum + video.commentCount, 0) / count;
+
+        const result = {
+          channelId: resolvedChannelId,
+          uploadsPlaylistId: uploads.uploadsPlaylistId,
+          publishedAfter: publishedAfter?.toISOString(),
+          publishedBefore: publishedBefore?.toISOString(),
+          videoCount: videoAnalysis.length,
+          playlistItemsScanned: uploads.playlistItemsScanned,
+          pagesFetched: uploads.pagesFetched,
+          stoppedReason: uploads.stoppedReason,
+          sortBy,
+          averages: {
+            viewCount: avgViews,
+            likeCount: avgLikes,
+            commentCount: avgComments
+          },
+          videos: sorted.slice(0, maxResults)
+        };
+
+        return structuredResult(result, videoAnalysis.length ? undefined : `No videos found for channel ${channelId}`);
+      } catch (error) {
+        return toolError('Error analyzing channel videos', error);
+      }
+    })
+  );
+
+  server.registerTool(
+    'enhanced-transcript',
+    {
+      description: 'Advanced transcript extraction tool with filtering, search, and multi-video capabilities. Provides rich transcript data for detailed analysis and processing. This tool offers multiple advanced features: 1) Extract transcripts from multiple videos in one request; 2) Filter by time ranges to focus on specific parts; 3) Search for specific content within transcripts; 4) Segment transcripts for structural analysis, into equal slices, at topic shifts (method "smart", count optional) or at the chapters in the description (method "chapters"), with section boundaries, time ranges and top terms returned in sections; 5) Format output in different ways (raw, timestamped, merged text) or export subtitle files (SRT, WebVTT, TTML, YouTube json3) with millisecond cue timing; 6) Include video metadata; 7) Page through long transcripts by approximate token count with chunk, which returns one chunk and its position (chunk.totalChunks, time range). Parameters: videoIds (required) - Array of YouTube video IDs (up to 5); language (optional) - Language code or ordered fallback list; normalize (optional) - "sentences" or "paragraphs" to rebuild auto-caption fragments into punctuated text before filtering; format (optional) - Output format ("raw", "timestamped", "merged", "srt", "vtt", "ttml", "json3"); includeMetadata (optional) - Whether to include video details; filters (optional) - Complex filtering options including timeRange, search, and segment; chunk (optional) - { number (from 1), maxTokens (default 4000), overlapTokens (default 200) } to return one chunk of the processed transcript.',
+      inputSchema: {
+        videoIds: z.array(videoIdSchema).min(1).max(5),
+        language: languageSchema.optional(),
+        normalize: normalizeSchema.optional(),
+        format: z.enum(['raw', 'timestamped', 'merged', 'srt', 'vtt', 'ttml', 'json3']).optional(),
+        includeMetadata: z.boolean().optional(),
+        filters: z.object({
+          timeRange: z.object({
+            start: z.number().min(0).optional(),
+            end: z.number().min(0).optional()
+          }).optional(),
+          search: z.object({
+            query: z.string().min(1),
+            caseSensitive: z.boolean().optional(),
+            contextLines: z.number().min(0).max(5).optional()
+          }).optional(),
+          segment: z.object({
+            method: z.enum(['equal', 'smart', 'chapters']).optional(),
+            count: z.number().min(1).max(10).optional()
+          }).optional()
+        }).optional(),
+        chunk: z.object({
+          number: z.number().int().min(1),
+          maxTokens: z.number().int().min(200).max(200000).optional(),
+          overlapTokens: z.number().int().min(0).max(10000).optional()
+        }).optional()
+      },
+      outputSchema: enhancedTranscriptOutputSchema
+    },
+    withQuota('enhanced-transcript', 1, async ({ videoIds, language, normalize, format, includeMetadata, filters, chunk }) => {
+      try {
+        const options: TranscriptOptions = {
+          language,
+          normalize,
+          format,
+          includeMetadata,
+          timeRange: filters?.timeRange,
+          search: filters?.search,
+          chunk
+        };
+
+        // Equal slices need a count; topic and chapter segmentation can choose their own
+        if (filters?.segment && (filters.segment.count || (filters.segment.method && filters.segment.method !== 'equal'))) {
+          options.segment = {
+            method: filters.segment.method || 'equal',
+            count: filters.segment.count
+          };
+        }
+
+        // Call the enhanced transcript method
+        const transcript = await youtubeService.getEnhancedTranscript(videoIds, options);
+
+        // Convert to MCP format
+        return structuredResult(transcript);
+      } catch (error) {
+        return toolError('Failed to process transcript', error);
+      }
+    })
+  );
+
+  server.tool(
+    'get-key-moments',
+    'Extract key moments with timestamps from a video transcript for easier navigation and summarization. This tool ranks ~30 second sentence windows with TextRank over TF-IDF vectors, so the chosen moments are the passages most central to what the video discusses, spread across the timeline. Each moment has a generated short title, a score (0-1) and keywords. Useful for quickly navigating to important parts of longer videos. Parameters: videoId (required) - The YouTube video ID; maxMoments (optional) - Number of key moments to extract (default: 5, max: 10); includeFullTranscript (optional) - Append the full timestamped transcript (default: false). Returns a formatted text with key moments and their timestamps.',
+    {
+      videoId: videoIdSchema,
+      maxMoments: z.number().int().min(1).max(10).optional(),
+      includeFullTranscript: z.boolean().optional()
+    },
+    withQuota('get-key-moments', 1, async ({ videoId, maxMoments = 5, includeFullTranscript }) => {
+      try {
+        const keyMomentsTranscript = await youtubeService.getKeyMomentsTranscript(videoId, maxMoments, includeFullTranscript);
+
+        return {
+          content: [{
+            type: 'text',
+            text: keyMomentsTranscript.text || 'No key moments found'
+          }]
+        };
+      } catch (error) {
+        return toolError('Error extracting key moments', error);
+      }
+    })
+  );
+
+  server.tool(
+    'get-segmented-transcript',
+    'Divide a video transcript into segments for easier analysis and navigation. This tool splits the video into equal time segments, or with method "smart" at the points where the topic shifts (TextTiling lexical cohesion), and extracts the transcript for each segment with proper timestamps and its top terms. Ideal for analyzing the structure of longer videos or when you need to focus on specific parts of the content. Parameters: videoId (required) - The YouTube video ID; segmentCount (optional) - Number of segments to divide the video into (default: 4, max: 10); method (optional) - "equal" time slices (default) or "smart" topic segmentation, where segmentCount is an upper bound because only real topic shifts become boundaries, or "chapters" to group the transcript under the chapters declared in the description (falls back to "smart" when there are none). Returns a markdown-formatted text with each segment clearly labeled with time ranges and containing the relevant transcript text.',
+    {
+      videoId: videoIdSchema,
+      segmentCount: z.string().optional(),
+      method: z.enum(['equal', 'smart', 'chapters']).optional()
+    },
+    withQuota('get-segmented-transcript', 1, async ({ videoId, segmentCount, method }) => {
+      try {
+        // 문자열 segmentCount를 숫자로 변환
+        const segmentCountNum = segmentCount ? parseInt(segmentCount, 10) : 4;
+
+        const segmentedTranscript = await youtubeService.getSegmentedTranscript(videoId, segmentCountNum, method);
+
+        return {
+          content: [{
+            type: 'text',
+            text: segmentedTranscript.text || 'Failed to create segmented transcript'
+          }]
+        };
+      } catch (error) {
+        return toolError('Error creating segmented transcript', error);
+      }
+    })
+  );
+
+  server.prompt(
+    'segment-by-segment-analysis',
+    'Analyze a YouTube video segment by segment for a detailed breakdown of content. This prompt divides the video into the specified number of segments and provides a comprehensive analysis of each part. Particularly useful for longer videos where the content changes throughout or for educational videos with multiple topics. The analysis includes key points, important quotes, and how each segment connects to the overall theme. Parameters: videoId (required) - The YouTube video ID; segmentCount (optional) - Number of segments to divide the video into (default: 4, range: 2-8).',
+    {
+      videoId: videoIdSchema,
+      segmentCount: z.string().optional(),
+    },
+    attributedTo('prompt:segment-by-segment-analysis', async ({ videoId, segmentCount }) => {
+      try {
+        // 문자열 세그먼트 카운트를 숫자로 변환
+        const segmentCountNum = segmentCount ? parseInt(segmentCount, 10) : 4;
+
+        // Get video details and segmented transcript
+        const videoData = await youtubeService.tryGetVideoDetails(videoId);
+        const video = videoData?.items?.[0];
+        const segmentedTranscript = await youtubeService.getSegmentedTranscript(videoId, segmentCountNum);
+
+        if (!segmentedTranscript.text) {
+          throw new Error('Failed to generate segmented transcript');
+        }
+
+        return {
+          messages: [{
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Please provide a segment-by-segment analysis of the following YouTube video:
+
+Video Title: ${video?.snippet?.title || 'Unknown'}
+Channel: ${video?.snippet?.channelTitle || 'Unknown'}
+Published: ${video?.snippet?.publishedAt || 'Unknown'}
+
+${segmentedTranscript.text}
+
+For each segment, please provide:
+1. A brief summary of the key points and information presented
+2. Any important quotes or statements
+3. How this segment connects to the overall topic of the video
+
+Conclude with a brief overall summary that ties together the main themes across all segments.`
+            }
+          }]
+        };
+      } catch (error) {
+        return promptError('Error creating segment analysis prompt', error);
+      }
+    })
+  );
+
+  // Define prompts
+  server.prompt(
+    'video-analysis',
+    'Generate an analysis of a YouTube video based on its content and statistics',
+    {
+      videoId: videoIdSchema
+    },
+    ({ videoId }) => ({
+      messages: [{
+        role: 'user',
+        content: {
+          type: 'text',
+          text: `Please analyze this YouTube video (ID: ${videoId}). Include information about the video's content, key points, and audience reception.`
+        }
+      }]
+    })
+  );
+
+  server.prompt(
+    'transcript-summary',
+    'Generate a summary of a YouTube video based on its transcript content with customizable options. This prompt provides different summary levels from brief overviews to detailed analyses, and can extract key topics from the content. Optimal for quickly understanding video content without watching the entire video. Parameters: videoId (required) - The YouTube video ID; language (optional) - Language code for transcript (e.g., "en", "ko"), or a comma-separated fallback list such as "ko,en"; summaryLength (optional) - Level of detail in summary ("short", "medium", or "detailed", default: "medium"); includeKeywords (optional) - Whether to extract key topics (set to "true" to enable).',
+    {
+      videoId: videoIdSchema,
+      language: z.string().optional(),
+      summaryLength: z.string().optional(),
+      includeKeywords: z.string().optional(),
+    },
+    attributedTo('prompt:transcript-summary', async ({ videoId, language, summaryLength, includeKeywords }) => {
+      try {
+        // Set defaults
+        const finalSummaryLength = summaryLength || 'medium';
+        const shouldIncludeKeywords = includeKeywords === 'true';
+
+        // Get video details and transcript
+        const videoData = await youtubeService.tryGetVideoDetails(videoId);
+        const video = videoData?.items?.[0];
+        const transcriptData = await youtubeService.getTranscript(videoId, language);
+
+        // Format transcript text
+        const transcriptText = transcriptData.map(caption => caption.text).join(' ');
+
+        // Define summary instructions based on length
+        let summaryInstructions = '';
+        switch(finalSummaryLength) {
+          case 'short':
+            summaryInstructions = `Please provide a brief summary of this video in 3-5 sentences that captures the main idea.`;
+            break;
+          case 'detailed':
+            summaryInstructions = `Please provide a comprehensive summary of this video, including:
+1. A detailed overview of the main topics (at least 3-4 paragraphs)
+2. All important details, facts, and arguments presented
+3. The structure of the content and how ideas are developed
+4. The overall tone, style, and intended audience of the content
+5. Any conclusions or calls to action mentioned`;
+            break;
+          case 'medium':
+          default:
+            summaryInstructions = `Please provide:
+1. A concise summary of the main topics and key points
+2. Important details or facts presented
+3. The overall tone and style of the content`;
+            break;
+        }
+
+        // Add keywords extraction if requested
+        if (shouldIncludeKeywords) {
+          summaryInstructions += `\n\nAlso extract and list 5-10 key topics, themes, or keywords from the content in the format:
+KEY TOPICS: [comma-separated list of key topics/keywords]`;
+        }
+
+        return {
+          messages: [{
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Please provide a ${finalSummaryLength} summary of the following YouTube video transcript.
+
+Video Title: ${video?.snippet?.title || 'Unknown'}
+Channel: ${video?.snippet?.channelTitle || 'Unknown'}
+Published: ${video?.snippet?.publishedAt || 'Unknown'}
+
+Transcript:
+${transcriptText}
+
+${summaryInstructions}`
+            }
+          }]
+        };
+      } catch (error) {
+        return promptError('Error creating transcript summary prompt', error);
+      }
+    })
+  );
+
+  return server;
+}
+
+/**
+ * Registers the tools that act as the signed-in YouTube account: sign-in, the account readers
+ * and the playlist writes. The account is one per process, so every session of a server that
+ * registers these tools reads and changes the same account.
+ */
+function registerAccountTools(server: McpServer): void {
+  server.tool(
+    'authorize-youtube',
+    'Sign the server in to a YouTube account with OAuth 2.0, for the account tools (get-my-subscriptions, get-my-playlists, get-liked-videos). Requires YOUTUBE_OAUTH_CLIENT_ID and YOUTUBE_OAUTH_CLIENT_SECRET. Without code, returns an authorization URL for the user to open in a browser; when the redirect URI is on this machine the server completes sign-in by itself once the user approves. Otherwise call again with code set to the whole URL the browser was redirected to, within 10 minutes; a bare authorization code is refused, since only the URL carries the state that ties it to this request. Tokens are stored and refreshed automatically. Parameters: code (optional) - URL the browser was redirected to.',
+    {
+      code: z.string().min(1).optional()
+    },
+    async ({ code }) => {
+      try {
+        if (code) {
+          const status = await youtubeService.oauth.completeAuthorization(code);
+          return {
+            content: [{
+              type: 'text',
+              text: `YouTube account connected.\n\n${JSON.stringify(status, null, 2)}`
+            }]
+          };
+        }
+
+        const { url, callbackListening } = await youtubeService.oauth.startAuthorization();
+        const next = callbackListening
+          ? 'After approving, the browser is sent back to this server and sign-in completes on its own. Use get-auth-status to confirm.'
+          : 'After approving, copy the address the browser was redirected to and call authorize-youtube again with it as code.';
+
+        return {
+          content: [{
+            type: 'text',
+            text: `Open this URL in a browser and approve access to the YouTube account:\n\n${url}\n\n${next} The link expires in 10 minutes.`
+          }]
+        };
+      } catch (error) {
+        return toolError('Error authorizing YouTube account', error);
+      }
+    }
+  );
+
+  server.tool(
+    'get-auth-status',
+    'Report whether a YouTube account is signed in through OAuth: the granted scopes, when the access token expires, whether a refresh token is stored, and any authorization waiting for the user. This tool does not consume quota.',
+    {},
+    async () => {
+      try {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify(youtubeService.oauth.getStatus(), null, 2)
+          }]
+        };
+      } catch (error) {
+        return toolError('Error fetching auth status', error);
+      }
+    }
+  );
+
+  server.tool(
+    'sign-out-youtube',
+    'Sign the server out of the YouTube account: revokes the OAuth token at Google and deletes the stored token file. The account tools stop working until authorize-youtube is run again.',
+    {},
+    async () => {
+      try {
+        await youtubeService.oauth.signOut();
+        return {
+          content: [{
+            type: 'text',
+            text: 'Signed out of the YouTube account.'
+          }]
+        };
+      } catch (error) {
+        return toolError('Error signing out', error);
+      }
+    }
+  );
+
+  server.registerTool(
+    'get-my-subscriptions',
+    {
+      description: 'List the channels the signed-in YouTube account subscribes to (requires authorize-youtube). Parameters: maxResults (optional) - Page size (default 25, max 50); pageToken (optional) - nextPageToken of the previous page; order (optional) - "alphabetical" (default), "relevance" or "unread" (channels with the most new videos first). Each subscription has the channel ID and title, when it was subscribed, and the channel\'s total and new video counts.',
+      inputSchema: {
+        maxResults: z.number().min(1).max(50).optional(),
+        pageToken: z.string().optional(),
+        order: z.enum(['alphabetical', 'relevance', 'unread']).optional()
+      },
+      outputSchema: mySubscriptionsOutputSchema
+    },
+    withQuota('get-my-subscriptions', 1, async ({ maxResults = 25, pageToken, order }) => {
+      try {
+        return structuredResult(await youtubeService.getMySubscriptions({ maxResults, pageToken, order }));
+      } catch (error) {
+        return toolError('Error fetching subscriptions', error);
+      }
+    })
+  );
+
+  server.registerTool(
+    'get-my-playlists',
+    {
+      description: 'List the signed-in YouTube account\'s playlists, including unlisted and private ones, with their privacy status and item count (requires authorize-youtube). Pass playlistId to read the items of one playlist instead, including private and unlisted videos that get-playlist cannot see. Parameters: playlistId (optional) - Playlist ID or URL; maxResults (optional) - Page size (default 25, max 50); pageToken (optional) - nextPageToken of the previous page.',
+      inputSchema: {
+        playlistId: playlistIdSchema.optional(),
+        maxResults: z.number().min(1).max(50).optional(),
+        pageToken: z.string().optional()
+      },
+      outputSchema: myPlaylistsOutputSchema
+    },
+    withQuota('get-my-playlists', 1, async ({ playlistId, maxResults = 25, pageToken }) => {
+      try {
+        if (playlistId) {
+          const page = await youtubeService.getMyPlaylistItems(playlistId, { maxResults, pageToken });
+          if (!page) {
+            return toolError('Error fetching playlist', new YouTubeError({ code: 'PLAYLIST_NOT_FOUND', message: `Playlist with ID ${playlistId} not found for the signed-in account.` }));
+          }
+
+          const { items, ...paging } = page;
+          return structuredResult({ playlistId, playlistItems: items, ...paging });
+        }
+
+        return structuredResult(await youtubeService.getMyPlaylists({ maxResults, pageToken }));
+      } catch (error) {
+        return toolError('Error fetching playlists', error);
+      }
+    })
+  );
+
+  server.registerTool(
+    'get-liked-videos',
+    {
+      description: 'List the videos the signed-in YouTube account liked, most recent first, with duration and statistics (requires authorize-youtube). Parameters: maxResults (optional) - Page size (default 25, max 50); pageToken (optional) - nextPageToken of the previous page.',
+      inputSchema: {
+        maxResults: z.number().min(1).max(50).optional(),
+        pageToken: z.string().optional()
+      },
+      outputSchema: likedVideosOutputSchema
+    },
+    withQuota('get-liked-videos', 1, async ({ maxResults = 25, pageToken }) => {
+      try {
+        return structuredResult(await youtubeService.getLikedVideos({ maxResults, pageToken }));
+      } catch (error) {
+        return toolError('Error fetching liked videos', error);
+      }
+    })
+  );
+
+  // Playlist writes. Every tool previews by default (dryRun: true) and only applies changes when
+  // the server runs with YOUTUBE_WRITE_ENABLED=true; each reports the quota it spent.
+  const dryRunSchema = z.boolean().optional().describe('Preview the change without applying it (default: true)');
+  const writeEstimate = (dryRun: boolean | undefined, writes: number) => (dryRun === false ? writes * 50 : 0) + 1;
+
+  server.registerTool(
+    'create-playlist',
+    {
+      description: 'Create a playlist in the signed-in YouTube account (requires authorize-youtube). Runs as a dry run that only describes the playlist unless dryRun is false, and applying it requires the server to run with YOUTUBE_WRITE_ENABLED=true. Costs 50 quota units when applied. Parameters: title (required); description (optional); privacyStatus (optional) - "private" (default), "unlisted" or "public"; dryRun (optional) - default true.',
+      inputSchema: {
+        title: z.string().min(1).max(150),
+        description: z.string().max(5000).optional(),
+        privacyStatus: z.enum(['public', 'unlisted', 'private']).optional(),
+        dryRun: dryRunSchema
+      },
+      outputSchema: playlistChangeOutputSchema
+    },
+    withQuota('create-playlist', ({ dryRun }) => writeEstimate(dryRun, 1), async ({ title, description, privacyStatus, dryRun = true }) => {
+      try {
+        return structuredResult(await youtubeService.createPlaylist({ title, description, privacyStatus }, dryRun));
+      } catch (error) {
+        return toolError('Error creating playlist', error);
+      }
+    })
+  );
+
+  server.registerTool(
+    'add-to-playlist',
+    {
+      description: 'Add videos to a playlist of the signed-in YouTube account, e.g. videos found with search-videos (requires authorize-youtube). Videos already in the playlist, listed twice, or not found are skipped and reported. Runs as a dry run that lists the planned additions unless dryRun is false, and applying it requires the server to run with YOUTUBE_WRITE_ENABLED=true. Costs 50 quota units per added video when applied, plus 1 unit per 50 items to read the playlist and per 50 videos to check them. Parameters: playlistId (required) - Playlist ID or URL; videoIds (required) - 1 to 50 video IDs or URLs, in the order to add; position (optional) - Zero-based position of the first video (default: the end); dryRun (optional) - default true.',
+      inputSchema: {
+        playlistId: playlistIdSchema,
+        videoIds: z.array(videoIdSchema).min(1).max(50),
+        position: z.number().int().min(0).optional(),
+        dryRun: dryRunSchema
+      },
+      outputSchema: playlistChangeOutputSchema
+    },
+    withQuota('add-to-playlist', ({ dryRun, videoIds }) => writeEstimate(dryRun, videoIds.length) + 1, async ({ playlistId, videoIds, position, dryRun = true }) => {
+      try {
+        return structuredResult(await youtubeService.addToPlaylist(playlistId, videoIds, position, dryRun));
+      } catch (error) {
+        return toolError('Error adding to playlist', error);
+      }
+    })
+  );
+
+  server.registerTool(
+    'remove-from-playlist',
+    {
+      description: 'Remove items from a playlist of the signed-in YouTube account (requires authorize-youtube): every occurrence of the given videos, and the given playlist items. Runs as a dry run that lists the items it would remove unless dryRun is false, and applying it requires the server to run with YOUTUBE_WRITE_ENABLED=true. Costs 50 quota units per removed item when applied, plus 1 unit per 50 items to read the playlist. Parameters: playlistId (required) - Playlist ID or URL; videoIds (optional) - Video IDs or URLs to remove; playlistItemIds (optional) - Playlist item IDs, as returned by get-my-playlists, to remove a single occurrence; dryRun (optional) - default true. At least one of videoIds and playlistItemIds is required.',
+      inputSchema: {
+        playlistId: playlistIdSchema,
+        videoIds: z.array(videoIdSchema).min(1).max(50).optional(),
+        playlistItemIds: z.array(z.string().min(1)).min(1).max(50).optional(),
+        dryRun: dryRunSchema
+      },
+      outputSchema: playlistChangeOutputSchema
+    },
+    withQuota('remove-from-playlist', ({ dryRun, videoIds, playlistItemIds }) => writeEstimate(dryRun, (videoIds?.length || 0) + (playlistItemIds?.length || 0)), async ({ playlistId, videoIds, playlistItemIds, dryRun = true }) => {
+      try {
+        if (!videoIds && !playlistItemIds) {
+          return toolError('Error removing from playlist', new YouTubeError({ code: 'INVALID_ARGUMENT', message: 'Pass videoIds or playlistItemIds to say what to remove.' }));
+        }
+
+        return structuredResult(await youtubeService.removeFromPlaylist(playlistId, { videoIds, playlistItemIds }, dryRun));
+      } catch (error) {
+        return toolError('Error removing from playlist', error);
+      }
+    })
+  );
+
+  server.registerTool(
+    'reorder-playlist-item',
+    {
+      description: 'Move one item of a playlist of the signed-in YouTube account to a new position (requires authorize-youtube). The playlist must be sorted manually in YouTube. Runs as a dry run that describes the move unless dryRun is false, and applying it requires the server to run with YOUTUBE_WRITE_ENABLED=true. Costs 50 quota units when applied, plus 1 unit per 50 items to read the playlist. Parameters: playlistId (required) - Playlist ID or URL; videoId (optional) - Move the first occurrence of this video; playlistItemId (optional) - Move this playlist item instead; position (required) - Zero-based target position; dryRun (optional) - default true.',
+      inputSchema: {
+        playlistId: playlistIdSchema,
+        videoId: videoIdSchema.optional(),
+        playlistItemId: z.string().min(1).optional(),
+        position: z.number().int().min(0),
+        dryRun: dryRunSchema
+      },
+      outputSchema: playlistChangeOutputSchema
+    },
+    withQuota('reorder-playlist-item', ({ dryRun }) => writeEstimate(dryRun, 1), async ({ playlistId, videoId, playlistItemId, position, dryRun = true }) => {
+      try {
+        if (!videoId && !playlistItemId) {
+          return toolError('Error reordering playlist item', new YouTubeError({ code: 'INVALID_ARGUMENT', message: 'Pass videoId or playlistItemId to say which item to move.' }));
+        }
+
+        return structuredResult(await youtubeService.reorderPlaylistItem(playlistId, { videoId, playlistItemId }, position, dryRun));
+      } catch (error) {
+        return toolError('Error reordering playlist item', error);
+      }
+    })
+  );
+}
+
+// Helper function to format time in MM:SS format
+function formatTime(milliseconds: number): string {
+  const totalSeconds = Math.floor(milliseconds / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+}
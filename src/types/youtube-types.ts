@@ -1,3 +1,5 @@
+import { youtube_v3 } from 'googleapis';
+
 export interface TranscriptSegment {
   text: string;
   duration: number;
@@ -16,16 +18,51 @@ export interface SearchOptions {
   contextLines?: number;
 }
 
+export interface CaptionTrack {
+  languageCode: string; // "und" when a local file does not name its language
+  name: string;
+  isAutoGenerated: boolean; // Automatic speech recognition (ASR) track
+  isTranslatable: boolean; // YouTube can machine-translate the track
+  provider: string; // Transcript provider the track comes from
+}
+
+export interface ProviderTranscript {
+  segments: TranscriptSegment[];
+  track: CaptionTrack; // The track the segments were read from
+}
+
+/**
+ * A source of raw transcript segments. YouTubeService tries its configured providers in order.
+ */
+export interface TranscriptProvider {
+  readonly name: string;
+  fetchTranscript(videoId: string, language?: string): Promise<ProviderTranscript>;
+  listTracks?(videoId: string): Promise<CaptionTrack[]>;
+}
+
+export interface CaptionTrackList {
+  videoId: string;
+  tracks: CaptionTrack[];
+  errors: Array<{ provider: string; error: string; code: YouTubeErrorCode }>; // Providers that could not list their tracks
+}
+
 export interface TranscriptOptions {
-  language?: string;
+  language?: string | string[]; // Language code, or an ordered fallback list such as ['en-GB', 'en', 'de']
+  normalize?: 'sentences' | 'paragraphs'; // Rebuild sentences (or paragraphs) from caption fragments before filtering
   timeRange?: TimeRange;
   search?: SearchOptions;
   segment?: {
-    method: 'equal' | 'smart';
-    count: number;
+    method: 'equal' | 'smart' | 'chapters'; // 'smart' splits where the topic shifts (TextTiling), 'chapters' at description chapters
+    count?: number; // Number of sections; 'smart' picks its own count when omitted, 'chapters' ignores it
   };
-  format?: 'raw' | 'timestamped' | 'merged';
+  format?: 'raw' | 'timestamped' | 'merged' | 'srt' | 'vtt' | 'ttml' | 'json3';
   includeMetadata?: boolean;
+  chunk?: TranscriptChunkOptions & { number: number }; // Return only this chunk (from 1) of the processed transcript
+}
+
+export interface TranscriptChunkOptions {
+  maxTokens?: number; // Approximate token budget of each chunk
+  overlapTokens?: number; // Approximate tokens each chunk repeats from the end of the previous one
 }
 
 export interface TranscriptSummaryOptions {
@@ -51,10 +88,335 @@ export interface FormattedTranscript {
   totalSegments: number;
   duration: number; // Total duration in seconds
   format: string;
-  text?: string; // Formatted text (for timestamped and merged formats)
+  text?: string; // Formatted text (for timestamped, merged and subtitle formats)
+  subtitleFiles?: Array<{ videoId?: string; text: string }>; // One subtitle document per video (subtitle formats only)
+  keyMoments?: KeyMoment[];
+  tracks?: Array<CaptionTrack & { videoId: string }>; // Caption track used for each video
+  sections?: TranscriptSection[]; // Set when segmentation is requested
+  chunk?: Omit<TranscriptChunk, 'segments'>; // Set when a chunk is requested; segments then hold only that chunk
   metadata?: Array<VideoMetadata | null>;
 }
 
+export interface TranscriptChunk {
+  chunk: number; // Position from 1
+  totalChunks: number;
+  startTime: number; // Seconds
+  endTime: number; // Seconds
+  firstSegment: number; // Index of the chunk's first caption in the full transcript
+  lastSegment: number; // Index of the chunk's last caption
+  overlapSegments: number; // Leading captions repeated from the previous chunk
+  tokenEstimate: number;
+  segments: TranscriptSegment[];
+}
+
+export interface TranscriptSection {
+  index: number;
+  videoId?: string; // Set when the transcript combines several videos
+  title?: string; // Chapter title (chapter segmentation only)
+  startTime: number; // Seconds
+  endTime: number; // Seconds
+  firstSegment: number; // Index of the section's first caption in the transcript's segments
+  lastSegment: number; // Index of the section's last caption
+  boundaryScore?: number; // Depth of the cohesion dip that starts this section (topic segmentation only)
+  topTerms: string[];
+}
+
+export interface VideoChapter {
+  index: number;
+  title: string;
+  startTime: number; // Seconds
+  endTime: number | null; // Seconds; null for the last chapter when the video length is unknown
+  timestamp: string; // m:ss or h:mm:ss, as in the description
+}
+
+export interface VideoChapters {
+  videoId: string;
+  title?: string | null;
+  duration: number | null; // Seconds
+  chapters: VideoChapter[]; // Empty when the description declares no valid chapters
+  error?: string; // Why the description's timestamps were not accepted as chapters
+}
+
+export interface AlignedCue {
+  index: number;
+  startTime: number; // Seconds
+  endTime: number; // Seconds
+  textA: string; // Empty when the first track has no cue here
+  textB: string;
+  cuesA: number; // Cues of the first track merged into this row
+  cuesB: number;
+}
+
+export interface BilingualTranscript {
+  videoId: string;
+  tracks: [CaptionTrack, CaptionTrack];
+  rows: AlignedCue[];
+  unmatchedA: number; // Rows with text in the first language only
+  unmatchedB: number;
+  text?: string; // Markdown table or dual-language SRT, when requested
+}
+
+export interface KeyMoment {
+  title: string; // Generated from the moment's most distinctive words
+  score: number; // TextRank centrality, normalized so the strongest moment is 1
+  startTime: number; // Seconds
+  endTime: number; // Seconds
+  text: string;
+  keywords: string[];
+}
+
+export interface TranscriptSearchHit {
+  videoId: string;
+  language?: string; // Language of the transcript the hit is in
+  offset: number; // Milliseconds from the start of the video
+  timestamp: string; // m:ss or h:mm:ss
+  score: number; // BM25 score of the matching passage
+  snippet: string;
+  url: string; // Deep link to the moment on YouTube
+}
+
+export interface TranscriptSearchResult {
+  query: string;
+  indexedVideos: number; // Transcripts in the index
+  ingested: string[]; // Requested videos fetched and indexed by this call
+  failed: Array<{ videoId: string; error: string }>; // Requested videos whose transcript could not be fetched
+  hits: TranscriptSearchHit[];
+}
+
+export interface VideoBatchResult {
+  items: youtube_v3.Schema$Video[]; // Found videos, in the order their IDs were requested
+  missingIds: string[]; // Requested IDs that returned no video (deleted, private or invalid)
+}
+
+export interface SearchVideosOptions {
+  channelId?: string;
+  order?: string;
+  type?: string;
+  videoDuration?: string;
+  publishedAfter?: string;
+  publishedBefore?: string;
+  videoCaption?: string;
+  videoDefinition?: string;
+  regionCode?: string;
+  pageToken?: string;
+}
+
+export interface PagedSearchResult {
+  items: youtube_v3.Schema$SearchResult[];
+  nextPageToken?: string; // Cursor to resume from, if more results exist
+  totalAvailable?: number | null; // YouTube's (approximate) total result count
+  pagesFetched: number;
+  duplicatesRemoved: number;
+  stoppedReason: 'target' | 'exhausted' | 'pageLimit' | 'quotaBudget';
+}
+
+export interface ChannelUploadsOptions {
+  publishedAfter?: Date; // Only videos published at or after this time
+  publishedBefore?: Date; // Only videos published before this time
+}
+
+export interface ChannelUploadsResult {
+  channelId: string;
+  uploadsPlaylistId: string;
+  items: youtube_v3.Schema$Video[]; // Uploads in playlist order, newest first
+  playlistItemsScanned: number;
+  pagesFetched: number;
+  stoppedReason: 'exhausted' | 'dateRange' | 'pageLimit' | 'quotaBudget';
+}
+
+export interface CommentNode {
+  id: string;
+  parentId?: string; // Set on replies
+  author?: string | null;
+  authorChannelId?: string | null;
+  text?: string | null;
+  likeCount: number;
+  publishedAt?: string | null;
+  updatedAt?: string | null;
+  totalReplyCount?: number; // Top-level comments only
+  replies?: CommentNode[]; // Nested layout only
+}
+
+export interface CommentCrawlOptions {
+  maxComments?: number; // Cap on top-level comments plus replies
+  order?: 'time' | 'relevance';
+  includeReplies?: boolean;
+  layout?: 'nested' | 'flat';
+}
+
+export interface CommentCrawlResult {
+  videoId: string;
+  layout: 'nested' | 'flat';
+  threadsFetched: number;
+  commentsFetched: number; // Top-level comments plus replies
+  stoppedReason: 'complete' | 'maxComments' | 'quotaBudget';
+  comments: CommentNode[];
+}
+
+export interface PlaylistVideo {
+  position: number;
+  videoId: string;
+  title?: string | null;
+  channelTitle?: string | null;
+  publishedAt?: string | null;
+  addedAt?: string | null;
+  duration?: string | null;
+  viewCount?: string | null;
+  likeCount?: string | null;
+  commentCount?: string | null;
+  available: boolean; // False for deleted or private videos
+}
+
+export interface PlaylistDetails {
+  id: string;
+  title?: string | null;
+  description?: string | null;
+  channelId?: string | null;
+  channelTitle?: string | null;
+  publishedAt?: string | null;
+  itemCount: number; // Items returned
+  totalItemCount?: number | null; // Items in the playlist, more than itemCount when paging stopped early
+  stoppedReason: 'exhausted' | 'pageLimit' | 'quotaBudget';
+  items: PlaylistVideo[];
+}
+
+export interface AccountListOptions {
+  maxResults?: number; // Page size, 1-50
+  pageToken?: string;
+}
+
+/**
+ * One page of a list that belongs to the signed-in account
+ */
+export interface AccountPage<T> {
+  items: T[];
+  nextPageToken: string | null;
+  totalResults: number | null;
+}
+
+export interface AccountSubscription {
+  channelId?: string | null;
+  title?: string | null;
+  description?: string | null;
+  subscribedAt?: string | null;
+  thumbnailUrl?: string | null;
+  totalItemCount?: number | null; // Videos on the channel
+  newItemCount?: number | null; // Videos since the subscriber last visited
+}
+
+export interface AccountPlaylist {
+  id?: string | null;
+  title?: string | null;
+  description?: string | null;
+  privacyStatus?: string | null; // "public", "unlisted" or "private"
+  itemCount?: number | null;
+  publishedAt?: string | null;
+}
+
+export interface AccountPlaylistItem {
+  playlistItemId?: string | null;
+  position?: number | null;
+  videoId?: string | null;
+  title?: string | null;
+  channelTitle?: string | null;
+  addedAt?: string | null;
+  privacyStatus?: string | null;
+}
+
+export interface LikedVideo {
+  videoId?: string | null;
+  title?: string | null;
+  channelTitle?: string | null;
+  publishedAt?: string | null;
+  duration?: string | null;
+  viewCount?: string | null;
+  likeCount?: string | null;
+}
+
+export interface NewPlaylist {
+  title: string;
+  description?: string;
+  privacyStatus?: 'public' | 'unlisted' | 'private';
+}
+
+/**
+ * Outcome of a playlist write tool, or in a dry run the changes it would make
+ */
+export interface PlaylistChangeResult {
+  dryRun: boolean;
+  summary: string;
+  playlist?: AccountPlaylist; // For create-playlist
+  playlistId?: string | null;
+  items: AccountPlaylistItem[]; // Items added, removed or moved
+  skipped: Array<{ videoId: string; reason: string }>;
+  quota: {
+    used: number; // Units this call spent, including lookups made for a dry run
+    usedByEndpoint: Record<string, number>;
+    writeCost: number; // Units of the writes themselves; in a dry run, what running it would cost
+  };
+}
+
+/**
+ * Stable error codes reported by every tool, resource and prompt. Clients can branch on the
+ * code instead of parsing messages; see utils/errors.ts for which codes are retryable.
+ */
+export type YouTubeErrorCode =
+  | 'QUOTA_EXCEEDED' // YouTube's daily quota for the API key is used up
+  | 'QUOTA_BUDGET_EXCEEDED' // This server's own YOUTUBE_QUOTA_BUDGET would be exceeded
+  | 'RATE_LIMITED'
+  | 'INVALID_API_KEY'
+  | 'API_KEY_MISSING' // No key configured; only transcript tools work
+  | 'UNAUTHENTICATED'
+  | 'WRITE_DISABLED' // A write tool ran without YOUTUBE_WRITE_ENABLED
+  | 'API_NOT_ENABLED'
+  | 'FORBIDDEN'
+  | 'VIDEO_NOT_FOUND'
+  | 'CHANNEL_NOT_FOUND'
+  | 'PLAYLIST_NOT_FOUND'
+  | 'NOT_FOUND'
+  | 'COMMENTS_DISABLED'
+  | 'CAPTIONS_DISABLED'
+  | 'LANGUAGE_NOT_AVAILABLE'
+  | 'TRANSCRIPT_NOT_FOUND'
+  | 'INVALID_ARGUMENT'
+  | 'NETWORK_ERROR'
+  | 'UPSTREAM_ERROR'
+  | 'INTERNAL_ERROR';
+
+/**
+ * A classified failure, as returned to clients
+ */
+export interface ErrorInfo {
+  code: YouTubeErrorCode;
+  message: string;
+  retryable: boolean; // Whether the same call may succeed if repeated later
+  hint: string; // What the user or model can do about it
+  status?: number; // HTTP status from YouTube, when there was one
+  reason?: string; // Google API error reason, e.g. "quotaExceeded"
+}
+
+export class YouTubeError extends Error {
+  public code: YouTubeErrorCode;
+  public status?: number;
+  public reason?: string;
+  public originalError?: unknown;
+
+  constructor(params: {
+    code: YouTubeErrorCode;
+    message: string;
+    status?: number;
+    reason?: string;
+    originalError?: unknown;
+  }) {
+    super(params.message);
+    this.name = 'YouTubeError';
+    this.code = params.code;
+    this.status = params.status;
+    this.reason = params.reason;
+    this.originalError = params.originalError;
+  }
+}
+
 export class TranscriptError extends Error {
   public videoId: string;
   public options: TranscriptOptions;
@@ -72,4 +434,20 @@ export class TranscriptError extends Error {
     this.options = params.options;
     this.originalError = params.originalError;
   }
-} 
\ No newline at end of file
+} 
+
+export class InvalidIdentifierError extends Error {
+  public kind: 'video' | 'playlist' | 'channel';
+  public input: string;
+
+  constructor(params: {
+    message: string;
+    kind: 'video' | 'playlist' | 'channel';
+    input: string;
+  }) {
+    super(params.message);
+    this.name = 'InvalidIdentifierError';
+    this.kind = params.kind;
+    this.input = params.input;
+  }
+}
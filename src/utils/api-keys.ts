@@ -0,0 +1,193 @@
+import { YouTubeError, YouTubeErrorCode } from '../types/youtube-types.js';
+import { toYouTubeError } from './errors.js';
+import { nextQuotaReset } from './quota.js';
+
+export type ApiKeyState = 'active' | 'exhausted' | 'invalid';
+
+export interface ApiKeyStatus {
+  label: string; // "key 2 (…x9Qk)", never the full key
+  state: ApiKeyState;
+  current: boolean; // Whether new requests use this key
+  resetsAt: string | null; // ISO time an exhausted key becomes usable again
+  requests: number; // Attempts made with the key since the server started
+  failures: number;
+  lastUsedAt: string | null;
+  lastError: { code: YouTubeErrorCode; message: string; at: string } | null;
+}
+
+interface ApiKeyEntry {
+  key: string;
+  label: string;
+  state: ApiKeyState;
+  resetsAt: number | null; // Epoch milliseconds
+  requests: number;
+  failures: number;
+  lastUsedAt: number | null;
+  lastError: { code: YouTubeErrorCode; message: string; at: number } | null;
+}
+
+// Failures that disable a key until its quota resets, or until the server restarts
+const EXHAUSTING_CODES: YouTubeErrorCode[] = ['QUOTA_EXCEEDED'];
+const INVALIDATING_CODES: YouTubeErrorCode[] = ['INVALID_API_KEY', 'API_NOT_ENABLED'];
+
+/**
+ * Reads API keys from the environment: YOUTUBE_API_KEYS (comma-separated, in order of use)
+ * followed by YOUTUBE_API_KEY, without duplicates
+ */
+export function loadApiKeys(): string[] {
+  const keys = [...(process.env.YOUTUBE_API_KEYS || '').split(','), process.env.YOUTUBE_API_KEY || '']
+    .map(key => key.trim())
+    .filter(Boolean);
+  return Array.from(new Set(keys));
+}
+
+/**
+ * Hands out API keys in order, moving to the next one when a key's daily quota runs out or
+ * the key is rejected. An exhausted key comes back into use after midnight Pacific Time,
+ * when YouTube resets its quota; a rejected key stays out until the server restarts.
+ */
+export class ApiKeyPool {
+  private entries: ApiKeyEntry[];
+  private currentIndex = 0;
+
+  constructor(keys: string[]) {
+    this.entries = keys.map((key, index) => ({
+      key,
+      label: `key ${index + 1} (…${key.slice(-4)})`,
+      state: 'active',
+      resetsAt: null,
+      requests: 0,
+      failures: 0,
+      lastUsedAt: null,
+      lastError: null
+    }));
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Returns the key new requests should use
+   * @throws YouTubeError API_KEY_MISSING when no key is configured, or the code that
+   * disabled the keys when none is usable
+   */
+  current(): string {
+    this.reviveExhausted();
+
+    if (!this.entries.length) {
+      throw new YouTubeError({
+        code: 'API_KEY_MISSING',
+        message: 'No YouTube API key is configured, so YouTube Data API tools are unavailable'
+      });
+    }
+
+    const usable = this.findUsable(this.currentIndex);
+    if (usable === -1) {
+      const exhausted = this.entries.filter(entry => entry.state === 'exhausted');
+      if (exhausted.length) {
+        const resetsAt = Math.min(...exhausted.map(entry => entry.resetsAt ?? Infinity));
+        throw new YouTubeError({
+          code: 'QUOTA_EXCEEDED',
+          message: `The daily quota of all ${this.entries.length} API key${this.entries.length === 1 ? '' : 's'} is used up until ${new Date(resetsAt).toISOString()}`
+        });
+      }
+      throw new YouTubeError({
+        code: 'INVALID_API_KEY',
+        message: `All ${this.entries.length} configured API key${this.entries.length === 1 ? ' was' : 's were'} rejected by YouTube`
+      });
+    }
+
+    this.currentIndex = usable;
+    return this.entries[usable].key;
+  }
+
+  /**
+   * Records a successful request made with a key
+   */
+  recordSuccess(key: string): void {
+    const entry = this.find(key);
+    if (entry) {
+      entry.requests++;
+      entry.lastUsedAt = Date.now();
+    }
+  }
+
+  /**
+   * Records a failed request made with a key, taking the key out of rotation when the failure
+   * is specific to it
+   * @returns Whether the request should be repeated with another key
+   */
+  recordFailure(key: string, error: unknown): boolean {
+    const entry = this.find(key);
+    if (!entry) {
+      return false;
+    }
+
+    const classified = toYouTubeError(error);
+    const now = Date.now();
+    entry.requests++;
+    entry.failures++;
+    entry.lastUsedAt = now;
+    entry.lastError = { code: classified.code, message: classified.message, at: now };
+
+    if (EXHAUSTING_CODES.includes(classified.code)) {
+      entry.state = 'exhausted';
+      entry.resetsAt = nextQuotaReset().getTime();
+    } else if (INVALIDATING_CODES.includes(classified.code)) {
+      entry.state = 'invalid';
+    } else {
+      return false;
+    }
+
+    const next = this.findUsable(this.entries.indexOf(entry));
+    console.error(`YouTube API ${entry.label} is ${entry.state} (${classified.code})${next === -1 ? ', no other key is usable' : `, switching to ${this.entries[next].label}`}`);
+    return next !== -1;
+  }
+
+  /**
+   * Reports the health of every key, in configuration order
+   */
+  getStatus(): ApiKeyStatus[] {
+    this.reviveExhausted();
+    const current = this.findUsable(this.currentIndex);
+
+    return this.entries.map((entry, index) => ({
+      label: entry.label,
+      state: entry.state,
+      current: index === current,
+      resetsAt: entry.resetsAt === null ? null : new Date(entry.resetsAt).toISOString(),
+      requests: entry.requests,
+      failures: entry.failures,
+      lastUsedAt: entry.lastUsedAt === null ? null : new Date(entry.lastUsedAt).toISOString(),
+      lastError: entry.lastError && { ...entry.lastError, at: new Date(entry.lastError.at).toISOString() }
+    }));
+  }
+
+  private find(key: string): ApiKeyEntry | undefined {
+    return this.entries.find(entry => entry.key === key);
+  }
+
+  /**
+   * Index of the first active key at or after start, wrapping around, or -1
+   */
+  private findUsable(start: number): number {
+    for (let offset = 0; offset < this.entries.length; offset++) {
+      const index = (start + offset) % this.entries.length;
+      if (this.entries[index].state === 'active') {
+        return index;
+      }
+    }
+    return -1;
+  }
+
+  private reviveExhausted(): void {
+    const now = Date.now();
+    for (const entry of this.entries) {
+      if (entry.state === 'exhausted' && entry.resetsAt !== null && entry.resetsAt <= now) {
+        entry.state = 'active';
+        entry.resetsAt = null;
+      }
+    }
+  }
+}
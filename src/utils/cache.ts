@@ -0,0 +1,187 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import NodeCache from 'node-cache';
+
+export type CacheKind = 'transcript' | 'video' | 'channel' | 'comments';
+
+export interface CacheConfig {
+  directory: string | null; // null keeps the cache in memory only
+  ttl: Record<CacheKind, number>; // Seconds
+}
+
+interface CacheEntry<T> {
+  key: string;
+  expiresAt: number; // Epoch milliseconds
+  value: T;
+}
+
+const DEFAULT_TTL: Record<CacheKind, number> = {
+  transcript: 7 * 24 * 3600, // Captions rarely change once published
+  video: 3600,
+  channel: 6 * 3600,
+  comments: 900
+};
+
+const DEFAULT_CACHE_DIR = path.join(os.homedir(), '.cache', 'youtube-mcp-server');
+
+function readTtl(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') {
+    return fallback;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    console.error(`Ignoring invalid ${name}=${value}, using ${fallback} seconds`);
+    return fallback;
+  }
+
+  return seconds;
+}
+
+/**
+ * Reads cache settings from the environment:
+ * CACHE_DIR (directory, or "memory" to disable persistence) and
+ * CACHE_TTL_TRANSCRIPT / CACHE_TTL_VIDEO / CACHE_TTL_CHANNEL / CACHE_TTL_COMMENTS (seconds, 0 disables)
+ */
+export function loadCacheConfig(): CacheConfig {
+  const dir = process.env.CACHE_DIR;
+
+  return {
+    directory: dir === 'memory' ? null : (dir || DEFAULT_CACHE_DIR),
+    ttl: {
+      transcript: readTtl('CACHE_TTL_TRANSCRIPT', DEFAULT_TTL.transcript),
+      video: readTtl('CACHE_TTL_VIDEO', DEFAULT_TTL.video),
+      channel: readTtl('CACHE_TTL_CHANNEL', DEFAULT_TTL.channel),
+      comments: readTtl('CACHE_TTL_COMMENTS', DEFAULT_TTL.comments)
+    }
+  };
+}
+
+/**
+ * Two-level cache: an in-memory NodeCache in front of one JSON file per entry on disk.
+ * Entries survive process restarts, and concurrent lookups of the same missing key
+ * share a single fetch.
+ */
+export class PersistentCache {
+  private memory: NodeCache;
+  private inflight = new Map<string, Promise<unknown>>();
+
+  constructor(private config: CacheConfig) {
+    this.memory = new NodeCache({ checkperiod: 600 });
+  }
+
+  /**
+   * Returns the cached value for a key, or runs the fetcher once and caches its result.
+   * Failed fetches are not cached.
+   * @param shouldCache Decides whether a fetched value is cached, e.g. to skip partial results
+   */
+  async getOrFetch<T>(kind: CacheKind, key: string, fetcher: () => Promise<T>, shouldCache?: (value: T) => boolean): Promise<T> {
+    const cacheKey = `${kind}:${key}`;
+    const ttl = this.config.ttl[kind];
+
+    if (ttl === 0) {
+      return fetcher();
+    }
+
+    const pending = this.inflight.get(cacheKey);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const request = (async () => {
+      const cached = await this.get<T>(kind, cacheKey);
+      if (cached !== undefined) {
+        return cached;
+      }
+
+      const value = await fetcher();
+      if (!shouldCache || shouldCache(value)) {
+        await this.set(kind, cacheKey, value, ttl);
+      }
+      return value;
+    })();
+
+    this.inflight.set(cacheKey, request);
+    try {
+      return await request;
+    } finally {
+      this.inflight.delete(cacheKey);
+    }
+  }
+
+  /**
+   * Returns a cached value without fetching, or undefined when absent or expired
+   */
+  async lookup<T>(kind: CacheKind, key: string): Promise<T | undefined> {
+    return this.config.ttl[kind] === 0 ? undefined : this.get<T>(kind, `${kind}:${key}`);
+  }
+
+  /**
+   * Caches a value fetched outside getOrFetch, such as one item of a batched request
+   */
+  async store<T>(kind: CacheKind, key: string, value: T): Promise<void> {
+    const ttl = this.config.ttl[kind];
+    if (ttl > 0) {
+      await this.set(kind, `${kind}:${key}`, value, ttl);
+    }
+  }
+
+  private async get<T>(kind: CacheKind, cacheKey: string): Promise<T | undefined> {
+    const inMemory = this.memory.get<T>(cacheKey);
+    if (inMemory !== undefined) {
+      return inMemory;
+    }
+
+    if (!this.config.directory) {
+      return undefined;
+    }
+
+    const filePath = this.filePath(kind, cacheKey);
+    try {
+      const entry = JSON.parse(await fs.readFile(filePath, 'utf8')) as CacheEntry<T>;
+      const remaining = entry.expiresAt - Date.now();
+
+      if (entry.key !== cacheKey || remaining <= 0) {
+        await fs.rm(filePath, { force: true });
+        return undefined;
+      }
+
+      this.memory.set(cacheKey, entry.value, Math.ceil(remaining / 1000));
+      return entry.value;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Error reading cache entry ${cacheKey}:`, error);
+      }
+      return undefined;
+    }
+  }
+
+  private async set<T>(kind: CacheKind, cacheKey: string, value: T, ttl: number): Promise<void> {
+    this.memory.set(cacheKey, value, ttl);
+
+    if (!this.config.directory) {
+      return;
+    }
+
+    // A failed disk write only costs a refetch later, so it must not fail the request
+    const filePath = this.filePath(kind, cacheKey);
+    const entry: CacheEntry<T> = { key: cacheKey, expiresAt: Date.now() + ttl * 1000, value };
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(entry), 'utf8');
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      console.error(`Error writing cache entry ${cacheKey}:`, error);
+    }
+  }
+
+  private filePath(kind: CacheKind, cacheKey: string): string {
+    const hash = createHash('sha256').update(cacheKey).digest('hex');
+    return path.join(this.config.directory as string, kind, `${hash}.json`);
+  }
+}
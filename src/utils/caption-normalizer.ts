@@ -0,0 +1,209 @@
+import { TranscriptOptions, TranscriptSegment } from '../types/youtube-types.js';
+
+export type NormalizeMode = NonNullable<TranscriptOptions['normalize']>;
+
+const MAX_OVERLAP_WORDS = 40; // Longest repeated run looked for between consecutive captions
+const MIN_OVERLAP_WORDS = 2; // Shortest repeat removed from a caption that overlaps the previous one in time
+const MIN_DETACHED_OVERLAP_WORDS = 4; // Shortest repeat removed when the captions do not overlap in time
+const PUNCTUATED_RATIO = 1 / 40; // Sentence marks per word above which the source is trusted to be punctuated
+const SENTENCE_GAP_MS = 600; // A pause this long ends a sentence in unpunctuated captions
+const PARAGRAPH_GAP_MS = 1500; // A pause this long between sentences starts a new paragraph
+const SOFT_SENTENCE_WORDS = 25; // From this length a sentence may end before a discourse marker
+const MAX_SENTENCE_WORDS = 40;
+const MAX_PARAGRAPH_WORDS = 120;
+
+// Words that usually open a new sentence in speech, used to split long unpunctuated runs
+const SENTENCE_STARTERS = new Set(['so', 'now', 'okay', 'ok', 'but', 'and', 'then', 'because', 'well', 'anyway', 'also', 'alright']);
+// Openers that make an unpunctuated sentence a question
+const QUESTION_STARTERS = new Set([
+  'what', 'why', 'how', 'who', 'whom', 'whose', 'where', 'when', 'which',
+  'is', 'are', 'was', 'were', 'do', 'does', 'did', 'can', 'could', 'would', 'should', 'will', 'have', 'has', 'shall'
+]);
+
+interface TimedWord {
+  text: string;
+  key: string; // Lowercase with punctuation removed, for comparing repeats
+  start: number; // Milliseconds, estimated within the caption for all but its first word
+  end: number;
+  gapBefore: number; // Silence before the word, non-zero only where a caption starts
+}
+
+interface Sentence {
+  words: TimedWord[];
+  text: string;
+}
+
+const SENTENCE_END = /[.!?…]["')\]]?$/;
+const SOUND_TAG = /^\[[^\]]*\]$/; // [Music], [Applause] and similar
+
+function wordKey(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+/**
+ * Turns captions into timed words, dropping the words a caption repeats from the end of the
+ * previous ones. Auto captions "roll": each line repeats the tail of the last one before adding
+ * new words, so without this every phrase would appear two or three times.
+ */
+function dedupeRollingWords(segments: TranscriptSegment[]): TimedWord[] {
+  const words: TimedWord[] = [];
+  let previousEnd: number | null = null;
+
+  for (const segment of segments) {
+    const texts = segment.text.replace(/\s+/g, ' ').trim().split(' ').filter(Boolean);
+    if (!texts.length) {
+      continue;
+    }
+
+    const keys = texts.map(wordKey);
+    const overlapsInTime = previousEnd !== null && segment.offset < previousEnd;
+    let repeated = 0;
+
+    for (let count = Math.min(keys.length, MAX_OVERLAP_WORDS, words.length); count > 0; count--) {
+      const tail = words.slice(words.length - count);
+      if (tail.every((word, i) => word.key === keys[i])) {
+        const minimum = overlapsInTime ? Math.min(MIN_OVERLAP_WORDS, keys.length) : MIN_DETACHED_OVERLAP_WORDS;
+        repeated = count >= minimum ? count : 0;
+        break;
+      }
+    }
+
+    const wordDuration = segment.duration / texts.length;
+    for (let i = repeated; i < texts.length; i++) {
+      words.push({
+        text: texts[i],
+        key: keys[i],
+        start: segment.offset + wordDuration * i,
+        end: segment.offset + wordDuration * (i + 1),
+        gapBefore: i === 0 && previousEnd !== null ? segment.offset - previousEnd : 0
+      });
+    }
+
+    previousEnd = Math.max(previousEnd ?? 0, segment.offset + segment.duration);
+  }
+
+  return words;
+}
+
+/**
+ * Adds the capitalization and final mark a sentence from unpunctuated captions is missing
+ */
+function restorePunctuation(words: TimedWord[]): string {
+  const text = words
+    .map(word => word.text.replace(/^i(?=$|'(?:m|ve|ll|d)$)/, 'I'))
+    .join(' ')
+    .replace(/[,;:]$/, '');
+
+  if (SOUND_TAG.test(text)) {
+    return text;
+  }
+
+  // "so what is..." is still a question, so leading discourse markers are skipped
+  const opener = words.find(word => !SENTENCE_STARTERS.has(word.key)) || words[0];
+  const capitalized = text.charAt(0).toUpperCase() + text.slice(1);
+  return SENTENCE_END.test(capitalized) ? capitalized : `${capitalized}${QUESTION_STARTERS.has(opener.key) ? '?' : '.'}`;
+}
+
+function splitSentences(words: TimedWord[]): Sentence[] {
+  const marks = words.filter(word => SENTENCE_END.test(word.text)).length;
+  const punctuated = marks >= words.length * PUNCTUATED_RATIO;
+  const sentences: Sentence[] = [];
+  let current: TimedWord[] = [];
+
+  const flush = () => {
+    if (current.length) {
+      sentences.push({ words: current, text: punctuated ? current.map(word => word.text).join(' ') : restorePunctuation(current) });
+      current = [];
+    }
+  };
+
+  for (const word of words) {
+    const previous = current[current.length - 1];
+    const isTag = SOUND_TAG.test(word.text);
+
+    if (previous && (
+      isTag ||
+      SOUND_TAG.test(previous.text) ||
+      SENTENCE_END.test(previous.text) ||
+      word.gapBefore >= (punctuated ? PARAGRAPH_GAP_MS : SENTENCE_GAP_MS) ||
+      (!punctuated && current.length >= SOFT_SENTENCE_WORDS && SENTENCE_STARTERS.has(word.key)) ||
+      current.length >= MAX_SENTENCE_WORDS
+    )) {
+      flush();
+    }
+
+    current.push(word);
+  }
+  flush();
+
+  return sentences;
+}
+
+function toSegment(words: TimedWord[], text: string, videoId: string | undefined): TranscriptSegment {
+  const offset = Math.round(words[0].start);
+  const segment: TranscriptSegment = {
+    text,
+    offset,
+    duration: Math.max(0, Math.round(words[words.length - 1].end) - offset)
+  };
+  if (videoId !== undefined) {
+    segment.videoId = videoId;
+  }
+  return segment;
+}
+
+function groupParagraphs(sentences: Sentence[], videoId: string | undefined): TranscriptSegment[] {
+  const paragraphs: TranscriptSegment[] = [];
+  let current: Sentence[] = [];
+
+  const flush = () => {
+    if (current.length) {
+      paragraphs.push(toSegment(current.flatMap(sentence => sentence.words), current.map(sentence => sentence.text).join(' '), videoId));
+      current = [];
+    }
+  };
+
+  for (const sentence of sentences) {
+    const previous = current[current.length - 1];
+    const wordCount = current.reduce((sum, item) => sum + item.words.length, 0);
+    const pause = previous ? sentence.words[0].start - previous.words[previous.words.length - 1].end : 0;
+
+    if (previous && (pause >= PARAGRAPH_GAP_MS || wordCount + sentence.words.length > MAX_PARAGRAPH_WORDS)) {
+      flush();
+    }
+    current.push(sentence);
+  }
+  flush();
+
+  return paragraphs;
+}
+
+/**
+ * Rebuilds readable text from caption fragments: removes the words rolling auto captions repeat,
+ * then merges the fragments into sentences, ending them at existing punctuation or, for
+ * unpunctuated auto captions, at pauses (restoring capitalization and a final . or ?).
+ * Each output segment starts at the time its first word was spoken, so offsets stay usable for
+ * timestamps and deep links. Videos of a combined transcript are normalized separately.
+ * @param segments Transcript segments in time order
+ * @param mode 'sentences' for one segment per sentence, 'paragraphs' to group sentences at longer pauses
+ */
+export function normalizeTranscript(segments: TranscriptSegment[], mode: NormalizeMode): TranscriptSegment[] {
+  const runs: TranscriptSegment[][] = [];
+  for (const segment of segments) {
+    const run = runs[runs.length - 1];
+    if (run && run[0].videoId === segment.videoId) {
+      run.push(segment);
+    } else {
+      runs.push([segment]);
+    }
+  }
+
+  return runs.flatMap(run => {
+    const videoId = run[0].videoId;
+    const sentences = splitSentences(dedupeRollingWords(run));
+
+    return mode === 'paragraphs'
+      ? groupParagraphs(sentences, videoId)
+      : sentences.map(sentence => toSegment(sentence.words, sentence.text, videoId));
+  });
+}
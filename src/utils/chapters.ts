@@ -0,0 +1,137 @@
+import { TranscriptSection, TranscriptSegment, VideoChapter } from '../types/youtube-types.js';
+import { describeSections } from './topic-segmentation.js';
+
+export interface ChapterParseResult {
+  chapters: VideoChapter[]; // Empty when the description declares no valid chapter list
+  error?: string; // Why a timestamp list was rejected
+}
+
+const MIN_CHAPTERS = 2;
+
+// A timestamp at the start of a line ("0:00 Intro", "[1:02:03] - Q&A", "3. 12:34 Benchmarks")
+const LEADING_TIMESTAMP = /^\s*(?:\d+[.)]\s+)?[([]?((?:\d{1,2}:)?\d{1,2}:\d{2})[)\]]?\s*(?:[-–—:|•·]\s*)?(.*)$/;
+// A timestamp at the end of a line ("Intro - 0:00", "Benchmarks (12:34)")
+const TRAILING_TIMESTAMP = /^(.*?)\s*(?:[-–—:|•·]\s*)?[([]?((?:\d{1,2}:)?\d{1,2}:\d{2})[)\]]?\s*$/;
+
+/**
+ * Parses "m:ss", "mm:ss" or "h:mm:ss" into seconds
+ */
+export function parseChapterTimestamp(timestamp: string): number {
+  return timestamp.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+/**
+ * Parses an ISO 8601 duration ("PT1H2M3S") as returned in contentDetails.duration into seconds
+ */
+export function parseIsoDuration(duration: string | null | undefined): number | null {
+  const match = duration?.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  return Number(days) * 86400 + Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
+function cleanTitle(title: string): string {
+  return title.replace(/^[\s\-–—:|•·]+|[\s\-–—:|•·]+$/g, '').trim();
+}
+
+/**
+ * Extracts the chapter list from a video description. Following YouTube's rules, the list
+ * starts at the first 0:00 timestamp and its timestamps must increase; anything else is
+ * rejected with a reason rather than returned as a partial list.
+ * @param description snippet.description of the video
+ * @param durationSeconds Video length, used as the end of the last chapter
+ */
+export function parseChapters(description: string | null | undefined, durationSeconds?: number | null): ChapterParseResult {
+  const entries: Array<{ startTime: number; title: string }> = [];
+
+  for (const line of (description || '').split(/\r?\n/)) {
+    const leading = line.match(LEADING_TIMESTAMP);
+    const trailing = leading ? null : line.match(TRAILING_TIMESTAMP);
+
+    if (leading) {
+      entries.push({ startTime: parseChapterTimestamp(leading[1]), title: cleanTitle(leading[2]) });
+    } else if (trailing && cleanTitle(trailing[1])) {
+      entries.push({ startTime: parseChapterTimestamp(trailing[2]), title: cleanTitle(trailing[1]) });
+    }
+  }
+
+  if (entries.length < MIN_CHAPTERS) {
+    return { chapters: [] };
+  }
+
+  // Timestamps mentioned before the list itself ("Recorded live at 19:30") are not chapters
+  const first = entries.findIndex(entry => entry.startTime === 0);
+  if (first === -1) {
+    return { chapters: [], error: `The first chapter must start at 0:00, but starts at ${formatChapterTimestamp(entries[0].startTime)}` };
+  }
+  entries.splice(0, first);
+
+  if (entries.length < MIN_CHAPTERS) {
+    return { chapters: [] };
+  }
+
+  for (let i = 1; i < entries.length; i++) {
+    if (entries[i].startTime <= entries[i - 1].startTime) {
+      return {
+        chapters: [],
+        error: `Chapter timestamps must increase, but "${entries[i].title}" (${formatChapterTimestamp(entries[i].startTime)}) ` +
+          `follows "${entries[i - 1].title}" (${formatChapterTimestamp(entries[i - 1].startTime)})`
+      };
+    }
+  }
+
+  if (durationSeconds && entries[entries.length - 1].startTime >= durationSeconds) {
+    return { chapters: [], error: `Chapter "${entries[entries.length - 1].title}" starts after the end of the video` };
+  }
+
+  return {
+    chapters: entries.map((entry, index) => ({
+      index,
+      title: entry.title || `Chapter ${index + 1}`,
+      startTime: entry.startTime,
+      endTime: index + 1 < entries.length ? entries[index + 1].startTime : (durationSeconds ?? null),
+      timestamp: formatChapterTimestamp(entry.startTime)
+    }))
+  };
+}
+
+/**
+ * Groups captions under the chapter they start in. Chapters without any captions are left out.
+ * @param segments Transcript segments in time order
+ * @param chapters Chapters from parseChapters
+ */
+export function groupByChapters(segments: TranscriptSegment[], chapters: VideoChapter[]): TranscriptSection[] {
+  const chapterOf = (segment: TranscriptSegment) => {
+    let index = 0;
+    while (index + 1 < chapters.length && chapters[index + 1].startTime * 1000 <= segment.offset) {
+      index++;
+    }
+    return index;
+  };
+
+  const owners = segments.map(chapterOf);
+  const starts = owners.flatMap((owner, i) => (i > 0 && owner !== owners[i - 1] ? [i] : []));
+
+  return describeSections(segments, starts).map(section => {
+    const chapter = chapters[owners[section.firstSegment]];
+    return {
+      ...section,
+      title: chapter.title,
+      startTime: chapter.startTime,
+      endTime: chapter.endTime ?? section.endTime
+    };
+  });
+}
+
+function formatChapterTimestamp(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`
+    : `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
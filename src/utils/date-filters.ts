@@ -0,0 +1,69 @@
+const DAY_MS = 24 * 3600 * 1000;
+
+const UNIT_ALIASES: Record<string, 'day' | 'week' | 'month' | 'year'> = {
+  d: 'day', day: 'day', days: 'day',
+  w: 'week', week: 'week', weeks: 'week',
+  m: 'month', mo: 'month', month: 'month', months: 'month',
+  y: 'year', yr: 'year', year: 'year', years: 'year'
+};
+
+function subtract(now: Date, amount: number, unit: 'day' | 'week' | 'month' | 'year'): Date {
+  const date = new Date(now.getTime());
+
+  switch (unit) {
+    case 'day':
+      return new Date(now.getTime() - amount * DAY_MS);
+    case 'week':
+      return new Date(now.getTime() - amount * 7 * DAY_MS);
+    case 'month':
+      date.setUTCMonth(date.getUTCMonth() - amount);
+      return date;
+    case 'year':
+      date.setUTCFullYear(date.getUTCFullYear() - amount);
+      return date;
+  }
+}
+
+/**
+ * Parses an absolute or relative date filter into a Date. Accepts ISO dates ("2024-01-31",
+ * "2024-01-31T12:00:00Z"), "today", "yesterday", "last 90 days", "90 days ago" and
+ * short forms such as "90d", "6w", "3m" or "1y".
+ * @param value Date expression
+ * @param now Reference time for relative expressions
+ * @throws Error when the expression is not recognized
+ */
+export function parseDateFilter(value: string, now: Date = new Date()): Date {
+  const input = value.trim().toLowerCase();
+
+  if (input === 'today') {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  }
+  if (input === 'yesterday') {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()) - DAY_MS);
+  }
+
+  const relative = input.match(/^(?:last|past)\s+(\d+)\s*([a-z]+)$/)
+    || input.match(/^(\d+)\s*([a-z]+)\s+ago$/)
+    || input.match(/^(\d+)\s*(d|w|m|mo|y|yr)$/);
+
+  if (relative) {
+    const unit = UNIT_ALIASES[relative[2]];
+    if (unit) {
+      return subtract(now, Number(relative[1]), unit);
+    }
+  }
+
+  const singular = input.match(/^(?:last|past)\s+([a-z]+)$/);
+  if (singular && UNIT_ALIASES[singular[1]]) {
+    return subtract(now, 1, UNIT_ALIASES[singular[1]]);
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}(?:[t ][\d:.]+(?:z|[+-]\d{2}:?\d{2})?)?$/.test(input)) {
+    const date = new Date(value.trim());
+    if (!Number.isNaN(date.getTime())) {
+      return date;
+    }
+  }
+
+  throw new Error(`Unrecognized date "${value}". Use an ISO date such as 2024-01-31, or a relative value such as "last 90 days", "6 months ago" or "1y".`);
+}
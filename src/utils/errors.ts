@@ -0,0 +1,297 @@
+import { ErrorInfo, InvalidIdentifierError, TranscriptError, YouTubeError, YouTubeErrorCode } from '../types/youtube-types.js';
+import { QuotaBudgetError } from './quota.js';
+
+const ERROR_DETAILS: Record<YouTubeErrorCode, { retryable: boolean; hint: string }> = {
+  QUOTA_EXCEEDED: {
+    retryable: false,
+    hint: 'The YouTube Data API daily quota is used up for every configured API key. It resets at midnight Pacific Time; transcript tools keep working in the meantime. Use get-api-key-status to see when each key resets.'
+  },
+  QUOTA_BUDGET_EXCEEDED: {
+    retryable: false,
+    hint: 'This server\'s daily quota budget (YOUTUBE_QUOTA_BUDGET) would be exceeded. Use get-quota-usage to see the remaining units, or ask for fewer results.'
+  },
+  RATE_LIMITED: {
+    retryable: true,
+    hint: 'YouTube is throttling requests. Wait a few seconds and try again, and avoid large parallel batches.'
+  },
+  INVALID_API_KEY: {
+    retryable: false,
+    hint: 'The YouTube API key was rejected. Check YOUTUBE_API_KEY or YOUTUBE_API_KEYS in the server configuration.'
+  },
+  API_KEY_MISSING: {
+    retryable: false,
+    hint: 'Set YOUTUBE_API_KEY (or YOUTUBE_API_KEYS for several keys) in the server configuration. Transcript tools work without a key.'
+  },
+  UNAUTHENTICATED: {
+    retryable: false,
+    hint: 'This request needs a signed-in YouTube account. Run authorize-youtube (OAuth needs YOUTUBE_OAUTH_CLIENT_ID and YOUTUBE_OAUTH_CLIENT_SECRET), then try again.'
+  },
+  WRITE_DISABLED: {
+    retryable: false,
+    hint: 'Write tools only run as dry runs unless the server is started with YOUTUBE_WRITE_ENABLED=true. Review the dry-run preview first.'
+  },
+  API_NOT_ENABLED: {
+    retryable: false,
+    hint: 'Enable the YouTube Data API v3 for the API key\'s Google Cloud project.'
+  },
+  FORBIDDEN: {
+    retryable: false,
+    hint: 'The content is private, restricted, or not accessible with this API key.'
+  },
+  VIDEO_NOT_FOUND: {
+    retryable: false,
+    hint: 'Check the video ID. The video may have been deleted or made private.'
+  },
+  CHANNEL_NOT_FOUND: {
+    retryable: false,
+    hint: 'Check the channel ID or @handle.'
+  },
+  PLAYLIST_NOT_FOUND: {
+    retryable: false,
+    hint: 'Check the playlist ID. The playlist may have been deleted or made private.'
+  },
+  NOT_FOUND: {
+    retryable: false,
+    hint: 'The requested resource does not exist.'
+  },
+  COMMENTS_DISABLED: {
+    retryable: false,
+    hint: 'The owner has turned comments off for this video.'
+  },
+  CAPTIONS_DISABLED: {
+    retryable: false,
+    hint: 'The video has no captions, or they are turned off. Try another video, or provide a local transcript file.'
+  },
+  LANGUAGE_NOT_AVAILABLE: {
+    retryable: false,
+    hint: 'No captions exist in the requested language. Use list-caption-tracks to see the available languages, or pass a fallback list.'
+  },
+  TRANSCRIPT_NOT_FOUND: {
+    retryable: false,
+    hint: 'No transcript provider had captions for this video.'
+  },
+  INVALID_ARGUMENT: {
+    retryable: false,
+    hint: 'Check the parameters and try again.'
+  },
+  NETWORK_ERROR: {
+    retryable: true,
+    hint: 'YouTube could not be reached. Check the network connection and try again.'
+  },
+  UPSTREAM_ERROR: {
+    retryable: true,
+    hint: 'YouTube returned a server error. Try again shortly.'
+  },
+  INTERNAL_ERROR: {
+    retryable: false,
+    hint: 'An unexpected error occurred in the server. Check the server logs.'
+  }
+};
+
+// Google API error reasons (error.errors[].reason, or error.status for newer APIs)
+const REASON_CODES: Record<string, YouTubeErrorCode> = {
+  quotaExceeded: 'QUOTA_EXCEEDED',
+  dailyLimitExceeded: 'QUOTA_EXCEEDED',
+  dailyLimitExceededUnreg: 'QUOTA_EXCEEDED',
+  rateLimitExceeded: 'RATE_LIMITED',
+  userRateLimitExceeded: 'RATE_LIMITED',
+  RESOURCE_EXHAUSTED: 'RATE_LIMITED',
+  keyInvalid: 'INVALID_API_KEY',
+  keyExpired: 'INVALID_API_KEY',
+  API_KEY_INVALID: 'INVALID_API_KEY',
+  authError: 'UNAUTHENTICATED',
+  UNAUTHENTICATED: 'UNAUTHENTICATED',
+  invalid_grant: 'UNAUTHENTICATED', // OAuth token endpoint: the refresh token was revoked or expired
+  invalid_client: 'UNAUTHENTICATED',
+  accessNotConfigured: 'API_NOT_ENABLED',
+  SERVICE_DISABLED: 'API_NOT_ENABLED',
+  forbidden: 'FORBIDDEN',
+  ipRefererBlocked: 'FORBIDDEN',
+  insufficientPermissions: 'FORBIDDEN',
+  ACCESS_TOKEN_SCOPE_INSUFFICIENT: 'FORBIDDEN',
+  playlistForbidden: 'FORBIDDEN',
+  playlistItemsNotAccessible: 'FORBIDDEN',
+  manualSortRequired: 'INVALID_ARGUMENT', // Reordering a playlist that is sorted automatically
+  playlistContainsMaximumNumberOfVideos: 'INVALID_ARGUMENT',
+  playlistOperationUnsupported: 'INVALID_ARGUMENT',
+  invalidPlaylistSnippet: 'INVALID_ARGUMENT',
+  PERMISSION_DENIED: 'FORBIDDEN',
+  videoNotFound: 'VIDEO_NOT_FOUND',
+  channelNotFound: 'CHANNEL_NOT_FOUND',
+  playlistNotFound: 'PLAYLIST_NOT_FOUND',
+  playlistItemNotFound: 'NOT_FOUND',
+  commentNotFound: 'NOT_FOUND',
+  commentsDisabled: 'COMMENTS_DISABLED',
+  invalidParameter: 'INVALID_ARGUMENT',
+  invalidValue: 'INVALID_ARGUMENT',
+  missingRequiredParameter: 'INVALID_ARGUMENT',
+  backendError: 'UPSTREAM_ERROR',
+  internalError: 'UPSTREAM_ERROR'
+};
+
+const NETWORK_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_SOCKET']);
+
+// Transcript failures from several providers are reported as the most useful of their codes
+const TRANSCRIPT_CODE_PRIORITY: YouTubeErrorCode[] = [
+  'RATE_LIMITED', 'NETWORK_ERROR', 'UPSTREAM_ERROR', 'FORBIDDEN', 'VIDEO_NOT_FOUND',
+  'LANGUAGE_NOT_AVAILABLE', 'CAPTIONS_DISABLED', 'INVALID_ARGUMENT', 'TRANSCRIPT_NOT_FOUND'
+];
+
+interface GaxiosLikeError {
+  message: string;
+  code?: string | number;
+  status?: number;
+  response?: {
+    status?: number;
+    data?: {
+      // The OAuth token endpoint reports a bare string, e.g. "invalid_grant"
+      error?: string | {
+        message?: string;
+        status?: string;
+        errors?: Array<{ reason?: string; message?: string }>;
+      };
+      error_description?: string;
+    };
+  };
+}
+
+function isGaxiosLike(error: unknown): error is GaxiosLikeError {
+  return error instanceof Error && ('response' in error || 'config' in error);
+}
+
+function networkCode(error: unknown): string | undefined {
+  const candidates = [error, (error as { cause?: unknown })?.cause];
+  for (const candidate of candidates) {
+    const code = (candidate as { code?: unknown })?.code;
+    if (typeof code === 'string' && NETWORK_ERROR_CODES.has(code)) {
+      return code;
+    }
+  }
+  return error instanceof TypeError && error.message === 'fetch failed' ? 'fetch failed' : undefined;
+}
+
+/**
+ * Maps a Google API error to a code, from its reason when present and its HTTP status otherwise
+ */
+function classifyGaxiosError(error: GaxiosLikeError): YouTubeError {
+  const status = error.response?.status ?? error.status ?? (typeof error.code === 'number' ? error.code : undefined);
+  const data = error.response?.data;
+  const details = typeof data?.error === 'object' ? data.error : undefined;
+  const reason = details?.errors?.[0]?.reason || details?.status || (typeof data?.error === 'string' ? data.error : undefined);
+  const message = details?.message || data?.error_description || error.message;
+
+  let code: YouTubeErrorCode | undefined = reason ? REASON_CODES[reason] : undefined;
+
+  // An invalid key is reported as a plain badRequest
+  if ((!code || code === 'INVALID_ARGUMENT') && /API key not valid|API key expired/i.test(message)) {
+    code = 'INVALID_API_KEY';
+  }
+
+  if (!code) {
+    if (status === 400) {
+      code = 'INVALID_ARGUMENT';
+    } else if (status === 401) {
+      code = 'UNAUTHENTICATED';
+    } else if (status === 403) {
+      code = 'FORBIDDEN';
+    } else if (status === 404) {
+      code = 'NOT_FOUND';
+    } else if (status === 429) {
+      code = 'RATE_LIMITED';
+    } else if (status && status >= 500) {
+      code = 'UPSTREAM_ERROR';
+    } else if (networkCode(error)) {
+      code = 'NETWORK_ERROR';
+    } else {
+      code = 'INTERNAL_ERROR';
+    }
+  }
+
+  return new YouTubeError({ code, message, status, reason, originalError: error });
+}
+
+/**
+ * Classifies any error thrown by the service into a YouTubeError with a stable code
+ */
+export function toYouTubeError(error: unknown): YouTubeError {
+  if (error instanceof YouTubeError) {
+    return error;
+  }
+  if (error instanceof TranscriptError) {
+    const cause = toYouTubeError(error.originalError);
+    return new YouTubeError({ code: cause.code, message: error.message, status: cause.status, reason: cause.reason, originalError: error });
+  }
+  if (error instanceof InvalidIdentifierError) {
+    return new YouTubeError({ code: 'INVALID_ARGUMENT', message: error.message, originalError: error });
+  }
+  if (error instanceof QuotaBudgetError) {
+    return new YouTubeError({ code: 'QUOTA_BUDGET_EXCEEDED', message: error.message, originalError: error });
+  }
+  if (isGaxiosLike(error)) {
+    return classifyGaxiosError(error);
+  }
+  if (networkCode(error)) {
+    return new YouTubeError({ code: 'NETWORK_ERROR', message: (error as Error).message, originalError: error });
+  }
+
+  return new YouTubeError({
+    code: 'INTERNAL_ERROR',
+    message: error instanceof Error ? error.message : String(error),
+    originalError: error
+  });
+}
+
+/**
+ * Whether retrying the failed request can be expected to help
+ */
+export function isRetryable(error: unknown): boolean {
+  return ERROR_DETAILS[toYouTubeError(error).code].retryable;
+}
+
+/**
+ * Combines the failures of several transcript providers into one error, keeping the code that
+ * tells the caller the most (a rate limit is worth retrying; "no captions" from a local
+ * directory says less than "captions disabled" from YouTube)
+ * @param failures Each provider's error, labeled with the provider and language tried
+ */
+export function combineTranscriptErrors(failures: Array<{ label: string; error: unknown }>): YouTubeError {
+  const classified = failures.map(({ label, error }) => ({ label, error: toYouTubeError(error) }));
+  const codes = classified.map(({ error }) => error.code);
+  const code = TRANSCRIPT_CODE_PRIORITY.find(candidate => codes.includes(candidate)) || codes[0] || 'TRANSCRIPT_NOT_FOUND';
+  const status = classified.find(({ error }) => error.code === code)?.error.status;
+
+  return new YouTubeError({
+    code,
+    message: classified.map(({ label, error }) => `${label}: ${error.message}`).join('; '),
+    status
+  });
+}
+
+/**
+ * Describes a failure for clients: its code, whether retrying can help, and a hint
+ * @param context What was being done, e.g. "Error comparing videos"
+ */
+export function describeError(context: string, error: unknown): ErrorInfo {
+  const classified = toYouTubeError(error);
+  const info: ErrorInfo = {
+    code: classified.code,
+    message: `${context}: ${classified.message}`,
+    ...ERROR_DETAILS[classified.code]
+  };
+
+  if (classified.status !== undefined) {
+    info.status = classified.status;
+  }
+  if (classified.reason !== undefined) {
+    info.reason = classified.reason;
+  }
+
+  return info;
+}
+
+/**
+ * Renders an error description as text for clients that only read text content
+ */
+export function formatErrorText(info: ErrorInfo): string {
+  return `${info.message}\nError code: ${info.code}${info.retryable ? ' (retryable)' : ''}\nHint: ${info.hint}`;
+}
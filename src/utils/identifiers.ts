@@ -0,0 +1,163 @@
+import { InvalidIdentifierError } from '../types/youtube-types.js';
+
+export type ChannelReference =
+  | { type: 'id'; value: string }
+  | { type: 'handle'; value: string } // Without the leading @
+  | { type: 'username'; value: string } // Legacy /user/ URLs
+  | { type: 'custom'; value: string }; // /c/ and bare vanity URLs
+
+const VIDEO_ID = /^[A-Za-z0-9_-]{11}$/;
+const CHANNEL_ID = /^UC[A-Za-z0-9_-]{22}$/;
+const PLAYLIST_ID = /^(?:PL|UU|LL|FL|RD|OL|UL|LM)[A-Za-z0-9_-]{10,}$/; // The shortest real suffix is a video ID; bare "PL" or "WL" is not a playlist
+const LANGUAGE_CODE = /^[A-Za-z]{2,3}(?:[-_][A-Za-z0-9]+)*$/; // BCP 47-like: "en", "en-GB", "zh-Hans", "pt_BR"
+const HANDLE = /^@([\p{L}\p{N}._-]{3,30})$/u;
+const YOUTUBE_HOSTS = ['youtube.com', 'm.youtube.com', 'music.youtube.com', 'youtube-nocookie.com'];
+const VIDEO_PATH_PREFIXES = ['shorts', 'live', 'embed', 'v', 'e'];
+// Top-level paths that are YouTube pages rather than legacy vanity channel URLs
+const RESERVED_PATHS = new Set(['watch', 'playlist', 'results', 'feed', 'shorts', 'live', 'embed', 'v', 'e', 'channel', 'c', 'user', 'hashtag', 'account', 'premium']);
+
+/**
+ * Parses input as a YouTube URL, accepting forms without a scheme such as "youtu.be/abc".
+ * Returns null for anything that is not a youtube.com or youtu.be URL, or whose path is not
+ * valid percent-encoding.
+ */
+function parseYouTubeUrl(input: string): { host: string; segments: string[]; params: URLSearchParams } | null {
+  if (!/[./]/.test(input)) {
+    return null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(input) ? input : `https://${input}`);
+  } catch {
+    return null;
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^www\./, '');
+  if (host !== 'youtu.be' && !YOUTUBE_HOSTS.includes(host)) {
+    return null;
+  }
+
+  let segments: string[];
+  try {
+    segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return null; // URIError, e.g. a truncated escape in "/@%E0%A4%A"
+  }
+
+  return { host, segments, params: url.searchParams };
+}
+
+/**
+ * Whether input looks like a caption language code. Language codes end up in file names
+ * and URLs, so anything else is rejected rather than passed on.
+ */
+export function isLanguageCode(input: string): boolean {
+  return LANGUAGE_CODE.test(input);
+}
+
+/**
+ * Extracts a video ID from a bare ID or any watch, youtu.be, /shorts/, /live/ or /embed/ URL
+ * @throws InvalidIdentifierError when no valid video ID can be found
+ */
+export function parseVideoId(input: string): string {
+  const value = input.trim();
+  if (VIDEO_ID.test(value)) {
+    return value;
+  }
+
+  const url = parseYouTubeUrl(value);
+  let candidate: string | null | undefined;
+
+  if (url?.host === 'youtu.be') {
+    candidate = url.segments[0];
+  } else if (url) {
+    const [first, second] = url.segments;
+    candidate = first === 'watch' ? url.params.get('v') : VIDEO_PATH_PREFIXES.includes(first) ? second : undefined;
+  }
+
+  if (candidate && VIDEO_ID.test(candidate)) {
+    return candidate;
+  }
+
+  throw new InvalidIdentifierError({
+    kind: 'video',
+    input,
+    message: url
+      ? `No video ID found in URL "${input}". Expected a watch?v=, youtu.be/, /shorts/, /live/ or /embed/ URL with an 11-character video ID.`
+      : `"${input}" is not a valid YouTube video ID or URL. Video IDs are 11 characters of letters, digits, "-" and "_".`
+  });
+}
+
+/**
+ * Extracts a playlist ID from a bare ID or any URL carrying a list= parameter
+ * @throws InvalidIdentifierError when no valid playlist ID can be found
+ */
+export function parsePlaylistId(input: string): string {
+  const value = input.trim();
+  if (PLAYLIST_ID.test(value)) {
+    return value;
+  }
+
+  const url = parseYouTubeUrl(value);
+  const candidate = url?.params.get('list');
+
+  if (candidate && PLAYLIST_ID.test(candidate)) {
+    return candidate;
+  }
+
+  throw new InvalidIdentifierError({
+    kind: 'playlist',
+    input,
+    message: url
+      ? `No playlist ID found in URL "${input}". Expected a URL with a list= parameter, such as youtube.com/playlist?list=PL...`
+      : `"${input}" is not a valid YouTube playlist ID or URL. Playlist IDs are a prefix such as "PL", "UU" or "OL" followed by at least 10 characters.`
+  });
+}
+
+/**
+ * Classifies a channel ID, @handle, or /channel/, /@handle, /c/, /user/ or vanity URL
+ * @throws InvalidIdentifierError when the input is none of these
+ */
+export function parseChannelReference(input: string): ChannelReference {
+  const value = input.trim();
+
+  if (CHANNEL_ID.test(value)) {
+    return { type: 'id', value };
+  }
+
+  const handle = value.match(HANDLE);
+  if (handle) {
+    return { type: 'handle', value: handle[1] };
+  }
+
+  const url = parseYouTubeUrl(value);
+  if (url && url.host !== 'youtu.be') {
+    const [first, second] = url.segments;
+    const urlHandle = first?.match(HANDLE);
+
+    if (first === 'channel' && second && CHANNEL_ID.test(second)) {
+      return { type: 'id', value: second };
+    }
+    if (urlHandle) {
+      return { type: 'handle', value: urlHandle[1] };
+    }
+    if (first === 'user' && second) {
+      return { type: 'username', value: second };
+    }
+    if (first === 'c' && second) {
+      return { type: 'custom', value: second };
+    }
+    if (first && !RESERVED_PATHS.has(first)) {
+      return { type: 'custom', value: first };
+    }
+  }
+
+  throw new InvalidIdentifierError({
+    kind: 'channel',
+    input,
+    message: url
+      ? `No channel found in URL "${input}". Expected a /channel/UC..., /@handle, /c/ or /user/ URL.`
+      : `"${input}" is not a valid YouTube channel ID, @handle or URL. Channel IDs are "UC" followed by 22 characters.`
+  });
+}
@@ -0,0 +1,145 @@
+import { KeyMoment, TranscriptSegment } from '../types/youtube-types.js';
+import { TextWindow, buildWindows, cosineSimilarity, isStopWord, tfidfVectors, tokenize, topTerms } from './text-analysis.js';
+
+const WINDOW_MS = 30000; // Target length of the sentence windows that are ranked
+const DAMPING = 0.85; // TextRank damping factor
+const MAX_ITERATIONS = 50;
+const CONVERGENCE = 1e-6;
+const MIN_WINDOW_TERMS = 5; // Windows with less content than this are never chosen
+const MAX_TITLE_WORDS = 4;
+const MAX_SIMILARITY = 0.6; // Windows more similar than this to a chosen moment are treated as repeats
+
+/**
+ * Ranks windows with TextRank: a window scores highly when it shares vocabulary
+ * (TF-IDF cosine similarity) with many other high-scoring windows, i.e. when it is
+ * central to what the whole video talks about.
+ */
+function textRank(vectors: Array<Map<string, number>>): number[] {
+  const count = vectors.length;
+  const weights = vectors.map((vector, i) =>
+    vectors.map((other, j) => (i === j ? 0 : cosineSimilarity(vector, other)))
+  );
+  const outgoing = weights.map(row => row.reduce((sum, weight) => sum + weight, 0));
+  let scores: number[] = new Array(count).fill(1 / count);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = scores.map((_, i) => {
+      let rank = 0;
+      for (let j = 0; j < count; j++) {
+        if (weights[j][i] > 0 && outgoing[j] > 0) {
+          rank += weights[j][i] / outgoing[j] * scores[j];
+        }
+      }
+      return (1 - DAMPING) / count + DAMPING * rank;
+    });
+
+    const delta = next.reduce((sum, score, i) => sum + Math.abs(score - scores[i]), 0);
+    scores = next;
+    if (delta < CONVERGENCE) {
+      break;
+    }
+  }
+
+  return scores;
+}
+
+/**
+ * Builds a short title from the window's most distinctive run of up to four content words,
+ * falling back to its two strongest terms
+ */
+function generateTitle(window: TextWindow, vector: Map<string, number>): string {
+  let best: { words: string[]; score: number } = { words: [], score: 0 };
+
+  // Candidate phrases never span a sentence or clause boundary
+  for (const clause of window.text.split(/[.!?;:,…]+/)) {
+    const tokens = tokenize(clause);
+
+    for (let start = 0; start < tokens.length; start++) {
+      let score = 0;
+      for (let end = start; end < tokens.length && end - start < MAX_TITLE_WORDS; end++) {
+        if (isStopWord(tokens[end]) || tokens.indexOf(tokens[end], start) < end) {
+          break;
+        }
+        score += vector.get(tokens[end]) || 0;
+        // Longer phrases must earn their length
+        const adjusted = score / Math.sqrt(end - start + 1);
+        if (adjusted > best.score) {
+          best = { words: tokens.slice(start, end + 1), score: adjusted };
+        }
+      }
+    }
+  }
+
+  let words = best.words;
+  if (words.length < 2) {
+    words = topTerms(vector, 2);
+  }
+  if (!words.length) {
+    return window.text.split(' ').slice(0, MAX_TITLE_WORDS).join(' ');
+  }
+
+  const title = words.length === 2 && best.words.length < 2 ? `${words[0]} and ${words[1]}` : words.join(' ');
+  return title.charAt(0).toUpperCase() + title.slice(1);
+}
+
+/**
+ * Extracts key moments with TextRank over ~30 second sentence windows. Moments are picked
+ * greedily by score while keeping a minimum distance between them and skipping repeats of
+ * moments already chosen, so they spread across the timeline instead of clustering in one
+ * dense section.
+ * @param segments Transcript segments in time order
+ * @param maxMoments Maximum number of moments to return
+ * @returns Moments in chronological order with scores normalized to 0-1
+ */
+export function extractKeyMoments(segments: TranscriptSegment[], maxMoments: number): KeyMoment[] {
+  const windows = buildWindows(segments, WINDOW_MS);
+  if (!windows.length) {
+    return [];
+  }
+
+  const vectors = tfidfVectors(windows);
+  const scores = textRank(vectors);
+  const maxScore = Math.max(...scores);
+
+  const candidates = windows
+    .map((window, index) => ({ window, index, score: scores[index] / maxScore }))
+    .filter(candidate => candidate.window.terms.length >= MIN_WINDOW_TERMS || windows.length <= maxMoments)
+    .sort((a, b) => b.score - a.score);
+
+  const totalDuration = windows[windows.length - 1].endTime - windows[0].startTime;
+  let minGap = totalDuration / (maxMoments * 2);
+  let chosen: typeof candidates = [];
+
+  // Relax the spacing until enough moments fit, so short videos still get maxMoments.
+  // Near-duplicate windows are skipped on every pass except the last.
+  while (minGap >= 0) {
+    chosen = [];
+    for (const candidate of candidates) {
+      const conflicts = chosen.some(other =>
+        Math.abs(other.window.startTime - candidate.window.startTime) < minGap ||
+        (minGap > 0 && cosineSimilarity(vectors[other.index], vectors[candidate.index]) > MAX_SIMILARITY)
+      );
+      if (!conflicts) {
+        chosen.push(candidate);
+        if (chosen.length >= maxMoments) {
+          break;
+        }
+      }
+    }
+    if (chosen.length >= Math.min(maxMoments, candidates.length) || minGap === 0) {
+      break;
+    }
+    minGap = minGap < WINDOW_MS ? 0 : minGap / 2;
+  }
+
+  return chosen
+    .sort((a, b) => a.window.startTime - b.window.startTime)
+    .map(({ window, index, score }) => ({
+      title: generateTitle(window, vectors[index]),
+      score: Number(score.toFixed(3)),
+      startTime: window.startTime / 1000,
+      endTime: window.endTime / 1000,
+      text: window.text,
+      keywords: topTerms(vectors[index], 5)
+    }));
+}
@@ -0,0 +1,361 @@
+import { randomBytes } from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { google, Auth } from 'googleapis';
+import { YouTubeError } from '../types/youtube-types.js';
+
+const DEFAULT_REDIRECT_URI = 'http://127.0.0.1:8085/oauth2callback';
+const READ_SCOPE = 'https://www.googleapis.com/auth/youtube.readonly';
+const WRITE_SCOPES = ['https://www.googleapis.com/auth/youtube', 'https://www.googleapis.com/auth/youtube.force-ssl'];
+const PENDING_AUTHORIZATION_MS = 10 * 60 * 1000; // How long an authorization URL and its callback listener stay valid
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', 'localhost', '[::1]']);
+
+export interface OAuthConfig {
+  clientId: string | null;
+  clientSecret: string | null;
+  redirectUri: string;
+  scopes: string[];
+  tokenFile: string | null; // null keeps tokens in memory only
+  tokenUrl: string | null; // Replaces Google's token endpoint, e.g. with a local stand-in
+  revokeUrl: string | null; // Replaces Google's revocation endpoint likewise
+}
+
+export interface OAuthStatus {
+  configured: boolean;
+  signedIn: boolean;
+  scopes: string[];
+  accessTokenExpiresAt: string | null;
+  hasRefreshToken: boolean; // Without one, the session ends when the access token expires
+  tokenFile: string | null;
+  pendingAuthorization: { url: string; expiresAt: string; callbackListening: boolean } | null;
+}
+
+interface PendingAuthorization {
+  state: string;
+  url: string;
+  expiresAt: number; // Epoch milliseconds
+  callbackServer: http.Server | null;
+}
+
+/**
+ * Reads OAuth settings from the environment:
+ * YOUTUBE_OAUTH_CLIENT_ID and YOUTUBE_OAUTH_CLIENT_SECRET (a Google Cloud OAuth client; both required),
+ * YOUTUBE_OAUTH_REDIRECT_URI, YOUTUBE_OAUTH_SCOPES (comma-separated),
+ * YOUTUBE_OAUTH_TOKEN_FILE (defaults to oauth-token.json in the cache directory),
+ * YOUTUBE_OAUTH_TOKEN_URL and YOUTUBE_OAUTH_REVOKE_URL
+ * @param writeEnabled Whether write tools are enabled, which makes the default scope read-write
+ */
+export function loadOAuthConfig(cacheDirectory: string | null, writeEnabled: boolean = false): OAuthConfig {
+  const scopes = (process.env.YOUTUBE_OAUTH_SCOPES || '')
+    .split(',')
+    .map(scope => scope.trim())
+    .filter(Boolean);
+
+  return {
+    clientId: process.env.YOUTUBE_OAUTH_CLIENT_ID || null,
+    clientSecret: process.env.YOUTUBE_OAUTH_CLIENT_SECRET || null,
+    redirectUri: process.env.YOUTUBE_OAUTH_REDIRECT_URI || DEFAULT_REDIRECT_URI,
+    scopes: scopes.length ? scopes : [writeEnabled ? WRITE_SCOPES[0] : READ_SCOPE],
+    tokenFile: process.env.YOUTUBE_OAUTH_TOKEN_FILE ||
+      (cacheDirectory ? path.join(cacheDirectory, 'oauth-token.json') : null),
+    tokenUrl: process.env.YOUTUBE_OAUTH_TOKEN_URL || null,
+    revokeUrl: process.env.YOUTUBE_OAUTH_REVOKE_URL || null
+  };
+}
+
+/**
+ * Signs the server in to a YouTube account with the OAuth 2.0 authorization code flow and keeps
+ * the tokens: they are stored in the token file, and the access token is refreshed with the
+ * refresh token whenever it expires, with the new token written back.
+ *
+ * Authorization starts with an URL the user opens in a browser. When the redirect URI points
+ * at this machine, a listener on it receives the code; otherwise the user passes the URL the
+ * browser was redirected to to completeAuthorization. Either way the code is only exchanged
+ * for the pending authorization whose state the URL carries, so a code obtained elsewhere
+ * cannot sign the server in to another account.
+ */
+export class OAuthManager {
+  private client: Auth.OAuth2Client | null = null;
+  private pending: PendingAuthorization | null = null;
+
+  constructor(private config: OAuthConfig) {
+    if (!config.clientId || !config.clientSecret) {
+      return;
+    }
+
+    this.client = new google.auth.OAuth2({
+      clientId: config.clientId,
+      clientSecret: config.clientSecret,
+      redirectUri: config.redirectUri,
+      endpoints: {
+        ...(config.tokenUrl ? { oauth2TokenUrl: config.tokenUrl } : {}),
+        ...(config.revokeUrl ? { oauth2RevokeUrl: config.revokeUrl } : {})
+      }
+    });
+
+    // Refreshed tokens arrive here; a refresh response usually omits the refresh token, so merge
+    this.client.on('tokens', tokens => {
+      this.save({ ...this.client!.credentials, ...tokens });
+    });
+
+    this.load();
+  }
+
+  get isConfigured(): boolean {
+    return this.client !== null;
+  }
+
+  get isSignedIn(): boolean {
+    const credentials = this.client?.credentials;
+    return !!(credentials?.refresh_token || credentials?.access_token);
+  }
+
+  /**
+   * Whether the signed-in account granted a scope that allows changes. Tokens stored without
+   * their scopes are given the benefit of the doubt; YouTube rejects the write if they lack it.
+   */
+  get hasWriteAccess(): boolean {
+    const scope = this.client?.credentials.scope;
+    return !scope || scope.split(' ').some(granted => WRITE_SCOPES.includes(granted));
+  }
+
+  /**
+   * Returns the signed-in OAuth client, which refreshes its access token on demand
+   * @throws YouTubeError UNAUTHENTICATED when OAuth is not configured or nobody has signed in
+   */
+  getClient(): Auth.OAuth2Client {
+    const client = this.requireClient();
+    if (!this.isSignedIn) {
+      throw new YouTubeError({
+        code: 'UNAUTHENTICATED',
+        message: 'No YouTube account is signed in. Run authorize-youtube first'
+      });
+    }
+    return client;
+  }
+
+  /**
+   * Creates an authorization URL for the user to open, and starts listening for the redirect
+   * when the redirect URI is on this machine. A previous pending authorization is replaced.
+   */
+  async startAuthorization(): Promise<{ url: string; callbackListening: boolean }> {
+    const client = this.requireClient();
+    this.cancelPending();
+
+    const state = randomBytes(16).toString('hex');
+    const url = client.generateAuthUrl({
+      access_type: 'offline',
+      prompt: 'consent', // Google only issues a refresh token on consent
+      scope: this.config.scopes,
+      state
+    });
+
+    const pending: PendingAuthorization = {
+      state,
+      url,
+      expiresAt: Date.now() + PENDING_AUTHORIZATION_MS,
+      callbackServer: null
+    };
+    this.pending = pending;
+    pending.callbackServer = await this.listenForCallback(pending);
+
+    return { url, callbackListening: pending.callbackServer !== null };
+  }
+
+  /**
+   * Exchanges the authorization code of the pending authorization for tokens and stores them
+   * @param redirectUrl The whole URL the browser was redirected to; its state must match
+   */
+  async completeAuthorization(redirectUrl: string): Promise<OAuthStatus> {
+    const client = this.requireClient();
+    const code = this.parseCode(redirectUrl.trim());
+
+    const { tokens } = await client.getToken(code);
+    client.setCredentials(tokens);
+    this.save(tokens);
+    this.cancelPending();
+
+    return this.getStatus();
+  }
+
+  /**
+   * Revokes the stored token (best effort) and forgets it
+   */
+  async signOut(): Promise<void> {
+    const client = this.requireClient();
+    const token = client.credentials.refresh_token || client.credentials.access_token;
+
+    if (token) {
+      try {
+        await client.revokeToken(token);
+      } catch (error) {
+        // Not logged in full: the failed request's message contains the token
+        console.error(`Error revoking OAuth token (${(error as { code?: string }).code || 'unknown error'}); it stays valid until it expires or is revoked in the Google account settings`);
+      }
+    }
+
+    client.setCredentials({});
+    this.cancelPending();
+
+    if (this.config.tokenFile) {
+      fs.rmSync(this.config.tokenFile, { force: true });
+    }
+  }
+
+  getStatus(): OAuthStatus {
+    const credentials = this.client?.credentials || {};
+    const pending = this.pending && this.pending.expiresAt > Date.now() ? this.pending : null;
+
+    return {
+      configured: this.isConfigured,
+      signedIn: this.isSignedIn,
+      scopes: credentials.scope ? credentials.scope.split(' ') : [],
+      accessTokenExpiresAt: credentials.expiry_date ? new Date(credentials.expiry_date).toISOString() : null,
+      hasRefreshToken: !!credentials.refresh_token,
+      tokenFile: this.config.tokenFile,
+      pendingAuthorization: pending && {
+        url: pending.url,
+        expiresAt: new Date(pending.expiresAt).toISOString(),
+        callbackListening: pending.callbackServer !== null
+      }
+    };
+  }
+
+  private requireClient(): Auth.OAuth2Client {
+    if (!this.client) {
+      throw new YouTubeError({
+        code: 'UNAUTHENTICATED',
+        message: 'OAuth is not configured: set YOUTUBE_OAUTH_CLIENT_ID and YOUTUBE_OAUTH_CLIENT_SECRET to use account tools'
+      });
+    }
+    return this.client;
+  }
+
+  private parseCode(redirectUrl: string): string {
+    if (!this.pending || this.pending.expiresAt <= Date.now()) {
+      throw new YouTubeError({
+        code: 'INVALID_ARGUMENT',
+        message: 'No authorization is waiting to be completed, or it expired. Run authorize-youtube without code first'
+      });
+    }
+
+    let url: URL;
+    try {
+      url = new URL(redirectUrl);
+    } catch {
+      // A bare code carries no state to tie it to the pending authorization
+      throw new YouTubeError({
+        code: 'INVALID_ARGUMENT',
+        message: 'Pass the whole URL the browser was redirected to, not just its code'
+      });
+    }
+
+    const error = url.searchParams.get('error');
+    if (error) {
+      throw new YouTubeError({ code: 'UNAUTHENTICATED', message: `Authorization was not granted: ${error}` });
+    }
+
+    const code = url.searchParams.get('code');
+    if (!code) {
+      throw new YouTubeError({ code: 'INVALID_ARGUMENT', message: 'The URL has no authorization code' });
+    }
+    if (this.pending.state !== url.searchParams.get('state')) {
+      throw new YouTubeError({
+        code: 'INVALID_ARGUMENT',
+        message: 'The URL does not belong to the current authorization request. Run authorize-youtube again'
+      });
+    }
+
+    return code;
+  }
+
+  /**
+   * Listens on the redirect URI when it is a loopback address, completing the authorization
+   * when the browser arrives there
+   * @returns The listening server, or null when the redirect URI is elsewhere or its port is taken
+   */
+  private async listenForCallback(pending: PendingAuthorization): Promise<http.Server | null> {
+    const redirect = new URL(this.config.redirectUri);
+    if (redirect.protocol !== 'http:' || !LOOPBACK_HOSTS.has(redirect.hostname)) {
+      return null;
+    }
+
+    const server = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', this.config.redirectUri);
+      if (url.pathname !== redirect.pathname) {
+        res.writeHead(404).end();
+        return;
+      }
+
+      this.completeAuthorization(url.href)
+        .then(() => {
+          res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+          res.end('YouTube account connected. You can close this window.');
+        })
+        .catch(error => {
+          console.error('Error completing OAuth authorization:', error);
+          res.writeHead(400, { 'Content-Type': 'text/plain; charset=utf-8' });
+          res.end(`Authorization failed: ${error instanceof Error ? error.message : String(error)}`);
+        });
+    });
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(Number(redirect.port) || 80, redirect.hostname.replace(/^\[|\]$/g, ''), () => resolve());
+      });
+    } catch (error) {
+      console.error(`Cannot listen for the OAuth redirect on ${redirect.host}:`, error);
+      return null;
+    }
+
+    // The listener must not keep a stdio session alive, and goes away when the request expires
+    server.unref();
+    setTimeout(() => {
+      if (this.pending === pending) {
+        this.cancelPending();
+      }
+    }, PENDING_AUTHORIZATION_MS).unref();
+
+    return server;
+  }
+
+  private cancelPending(): void {
+    this.pending?.callbackServer?.close();
+    this.pending = null;
+  }
+
+  private load(): void {
+    if (!this.config.tokenFile || !this.client) {
+      return;
+    }
+
+    try {
+      this.client.setCredentials(JSON.parse(fs.readFileSync(this.config.tokenFile, 'utf8')));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Error reading OAuth token file:', error);
+      }
+    }
+  }
+
+  private save(tokens: Auth.Credentials): void {
+    if (!this.config.tokenFile) {
+      return;
+    }
+
+    // Readable by the owner only, since the refresh token grants access to the account. The mode only
+    // applies to a new file, so a fresh one replaces the token file rather than rewriting it in place.
+    const tempPath = `${this.config.tokenFile}.${process.pid}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(this.config.tokenFile), { recursive: true });
+      fs.rmSync(tempPath, { force: true });
+      fs.writeFileSync(tempPath, JSON.stringify(tokens, null, 2), { encoding: 'utf8', mode: 0o600 });
+      fs.renameSync(tempPath, this.config.tokenFile);
+    } catch (error) {
+      console.error('Error writing OAuth token file:', error);
+      fs.rmSync(tempPath, { force: true });
+    }
+  }
+}
@@ -0,0 +1,416 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Unit cost of each YouTube Data API v3 endpoint used by this server.
+ * See https://developers.google.com/youtube/v3/determine_quota_cost
+ */
+export const QUOTA_COSTS: Record<string, number> = {
+  'search.list': 100,
+  'videos.list': 1,
+  'channels.list': 1,
+  'playlists.list': 1,
+  'playlistItems.list': 1,
+  'subscriptions.list': 1,
+  'commentThreads.list': 1,
+  'comments.list': 1,
+  'videoCategories.list': 1,
+  'captions.list': 50,
+  'playlists.insert': 50,
+  'playlistItems.insert': 50,
+  'playlistItems.update': 50,
+  'playlistItems.delete': 50
+};
+
+const UNATTRIBUTED = 'unattributed';
+const HISTORY_DAYS = 30;
+const SYNC_DELAY_MS = 1000; // Coalesces the charges of a burst of calls into one write of the ledger file
+const REFRESH_INTERVAL_MS = 30000; // How often an idle process reads the usage of the others
+const LOCK_WAIT_MS = 2000; // Longest wait for another process to finish writing the ledger
+const LOCK_RETRY_MS = 20;
+const LOCK_STALE_MS = 10000; // Age after which a lock is taken to be left behind by a crashed process
+
+export interface QuotaConfig {
+  dailyBudget: number | null; // null disables enforcement
+  ledgerFile: string | null; // null keeps the ledger in memory only
+}
+
+export interface DailyQuotaUsage {
+  date: string; // YYYY-MM-DD in Pacific Time, matching YouTube's quota reset
+  used: number;
+  calls: number;
+  byTool: Record<string, number>;
+  byEndpoint: Record<string, number>;
+}
+
+export interface QuotaReport extends DailyQuotaUsage {
+  dailyBudget: number | null;
+  remaining: number | null;
+}
+
+export class QuotaBudgetError extends Error {
+  public tool: string;
+  public estimatedUnits: number;
+  public remaining: number;
+
+  constructor(params: { tool: string; estimatedUnits: number; remaining: number; dailyBudget: number }) {
+    super(
+      `Daily YouTube API quota budget would be exceeded: ${params.tool} needs about ${params.estimatedUnits} units ` +
+      `but only ${params.remaining} of ${params.dailyBudget} remain today. The budget resets at midnight Pacific Time.`
+    );
+    this.name = 'QuotaBudgetError';
+    this.tool = params.tool;
+    this.estimatedUnits = params.estimatedUnits;
+    this.remaining = params.remaining;
+  }
+}
+
+/**
+ * Reads quota settings from the environment:
+ * YOUTUBE_QUOTA_BUDGET (daily units) and QUOTA_LEDGER_FILE (defaults to quota-ledger.json in the cache directory)
+ */
+export function loadQuotaConfig(cacheDirectory: string | null): QuotaConfig {
+  const budget = process.env.YOUTUBE_QUOTA_BUDGET;
+  const dailyBudget = budget ? Number(budget) : NaN;
+
+  if (budget && (!Number.isFinite(dailyBudget) || dailyBudget <= 0)) {
+    console.error(`Ignoring invalid YOUTUBE_QUOTA_BUDGET=${budget}`);
+  }
+
+  return {
+    dailyBudget: Number.isFinite(dailyBudget) && dailyBudget > 0 ? dailyBudget : null,
+    ledgerFile: process.env.QUOTA_LEDGER_FILE ||
+      (cacheDirectory ? path.join(cacheDirectory, 'quota-ledger.json') : null)
+  };
+}
+
+/**
+ * Current date in Pacific Time, the timezone YouTube uses for daily quota resets
+ */
+export function quotaDay(date: Date = new Date()): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: 'America/Los_Angeles',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(date);
+}
+
+/**
+ * Next midnight in Pacific Time, when YouTube resets daily quotas
+ */
+export function nextQuotaReset(date: Date = new Date()): Date {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: 'America/Los_Angeles',
+      hourCycle: 'h23',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    }).formatToParts(date).map(part => [part.type, Number(part.value)])
+  );
+  const elapsed = ((parts.hour * 60 + parts.minute) * 60 + parts.second) * 1000 + date.getMilliseconds();
+
+  // Off by an hour on the two days a year the clocks change, which only delays a retry
+  return new Date(date.getTime() + 24 * 3600 * 1000 - elapsed);
+}
+
+/**
+ * Adds one day's usage into another
+ */
+function addUsage(target: DailyQuotaUsage, usage: DailyQuotaUsage): void {
+  target.used += usage.used;
+  target.calls += usage.calls;
+  for (const [tool, units] of Object.entries(usage.byTool)) {
+    target.byTool[tool] = (target.byTool[tool] || 0) + units;
+  }
+  for (const [endpoint, units] of Object.entries(usage.byEndpoint)) {
+    target.byEndpoint[endpoint] = (target.byEndpoint[endpoint] || 0) + units;
+  }
+}
+
+function emptyDay(date: string): DailyQuotaUsage {
+  return { date, used: 0, calls: 0, byTool: {}, byEndpoint: {} };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Records the unit cost of every API call, grouped by day, tool and endpoint.
+ * The calling tool is tracked through async context, so service methods do not
+ * need to know which tool invoked them.
+ *
+ * Several server processes (one per stdio client) can share a ledger file. Each process counts
+ * in memory and merges the charges it has not written yet into the file in the background,
+ * under a lock file, picking up the other processes' usage as it does. Budget checks use the
+ * in-memory view, so they never wait on the file.
+ */
+export class QuotaLedger {
+  private days: Record<string, DailyQuotaUsage> = {}; // Usage as last read from the file, plus this process's charges since
+  private unsaved: Record<string, DailyQuotaUsage> = {}; // This process's charges not yet merged into the file
+  private context = new AsyncLocalStorage<string>();
+  private shared: boolean; // Whether the ledger file is in use; false once writing it fails
+  private syncTimer: NodeJS.Timeout | null = null;
+  private syncing: Promise<void> | null = null;
+
+  constructor(private config: QuotaConfig) {
+    this.shared = config.ledgerFile !== null;
+    this.load();
+
+    if (this.shared) {
+      // Picks up other processes' usage even while this one makes no calls
+      setInterval(() => void this.sync(), REFRESH_INTERVAL_MS).unref();
+      // Written synchronously so that usage is not lost when a stdio session ends abruptly
+      process.once('exit', () => this.flushOnExit());
+    }
+  }
+
+  get dailyBudget(): number | null {
+    return this.config.dailyBudget;
+  }
+
+  /**
+   * Runs a function with every API call it makes attributed to the given tool
+   */
+  runWithTool<T>(tool: string, fn: () => T): T {
+    return this.context.run(tool, fn);
+  }
+
+  /**
+   * Records one call to an endpoint, using its known unit cost unless one is given
+   */
+  charge(endpoint: string, units: number = QUOTA_COSTS[endpoint] ?? 1): void {
+    const tool = this.context.getStore() || UNATTRIBUTED;
+    const date = quotaDay();
+    const charge: DailyQuotaUsage = { date, used: units, calls: 1, byTool: { [tool]: units }, byEndpoint: { [endpoint]: units } };
+
+    addUsage(this.days[date] ||= emptyDay(date), charge);
+    if (this.shared) {
+      addUsage(this.unsaved[date] ||= emptyDay(date), charge);
+      this.scheduleSync();
+    }
+  }
+
+  /**
+   * Units left in today's budget, or null when no budget is configured
+   */
+  remaining(): number | null {
+    const { dailyBudget } = this.config;
+    return dailyBudget === null ? null : Math.max(0, dailyBudget - (this.days[quotaDay()]?.used || 0));
+  }
+
+  /**
+   * Whether spending the given units would stay within today's budget
+   */
+  canAfford(units: number): boolean {
+    const remaining = this.remaining();
+    return remaining === null || units <= remaining;
+  }
+
+  /**
+   * Throws a QuotaBudgetError if running a tool would push today's usage over the budget
+   */
+  assertBudget(tool: string, estimatedUnits: number): void {
+    const { dailyBudget } = this.config;
+    const remaining = this.remaining();
+
+    if (dailyBudget !== null && remaining !== null && estimatedUnits > remaining) {
+      throw new QuotaBudgetError({ tool, estimatedUnits, remaining, dailyBudget });
+    }
+  }
+
+  /**
+   * Returns usage for the most recent days, today first
+   */
+  getReport(days: number = 1): QuotaReport[] {
+    const { dailyBudget } = this.config;
+    const reports: QuotaReport[] = [];
+
+    for (let i = 0; i < days; i++) {
+      const date = quotaDay(new Date(Date.now() - i * 24 * 3600 * 1000));
+      const usage = this.days[date] || emptyDay(date);
+
+      reports.push({
+        ...usage,
+        dailyBudget,
+        remaining: dailyBudget === null ? null : Math.max(0, dailyBudget - usage.used)
+      });
+    }
+
+    return reports;
+  }
+
+  /**
+   * Merges the unsaved charges into the ledger file and reloads the usage of every process
+   * from it. Runs one at a time; a call during a sync waits for it.
+   */
+  async sync(): Promise<void> {
+    if (this.syncing) {
+      return this.syncing;
+    }
+
+    this.syncing = (async () => {
+      const lockFile = `${this.config.ledgerFile}.lock`;
+      const locked = await this.acquireLock(lockFile);
+      try {
+        this.merge(await this.readFile());
+      } finally {
+        if (locked) {
+          await fs.promises.rm(lockFile, { force: true });
+        }
+      }
+    })().catch(error => {
+      console.error('Error syncing quota ledger:', error);
+    }).finally(() => {
+      this.syncing = null;
+    });
+
+    return this.syncing;
+  }
+
+  private scheduleSync(): void {
+    if (this.syncTimer) {
+      return;
+    }
+    this.syncTimer = setTimeout(() => {
+      this.syncTimer = null;
+      void this.sync();
+    }, SYNC_DELAY_MS);
+    this.syncTimer.unref();
+  }
+
+  /**
+   * Writes the file's usage plus the unsaved charges, and makes that the in-memory view.
+   * Synchronous from reading the file's content on, so no charge slips in between.
+   */
+  private merge(fileDays: Record<string, DailyQuotaUsage>): void {
+    if (!this.shared || !this.config.ledgerFile) {
+      return;
+    }
+
+    const merged = fileDays;
+    for (const [date, usage] of Object.entries(this.unsaved)) {
+      addUsage(merged[date] ||= emptyDay(date), usage);
+    }
+
+    // Keep only recent history so the ledger file stays small
+    const cutoff = quotaDay(new Date(Date.now() - HISTORY_DAYS * 24 * 3600 * 1000));
+    for (const date of Object.keys(merged)) {
+      if (date < cutoff) {
+        delete merged[date];
+      }
+    }
+
+    if (Object.keys(this.unsaved).length) {
+      // Renamed into place so that other processes never read a half-written file
+      const tempFile = `${this.config.ledgerFile}.${process.pid}.tmp`;
+      try {
+        fs.mkdirSync(path.dirname(this.config.ledgerFile), { recursive: true });
+        fs.writeFileSync(tempFile, JSON.stringify(merged, null, 2), 'utf8');
+        fs.renameSync(tempFile, this.config.ledgerFile);
+      } catch (error) {
+        // Reading a file this process cannot update would drop its own charges, so count in memory from now on
+        console.error('Error writing quota ledger, keeping usage in memory only:', error);
+        this.shared = false;
+        fs.rmSync(tempFile, { force: true });
+        return;
+      }
+    }
+
+    this.days = merged;
+    this.unsaved = {};
+  }
+
+  private async readFile(): Promise<Record<string, DailyQuotaUsage>> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.config.ledgerFile!, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Error reading quota ledger:', error);
+      }
+      return {};
+    }
+  }
+
+  /**
+   * Takes the lock file, waiting asynchronously while another process holds it. A lock older
+   * than LOCK_STALE_MS was left by a crashed process and is removed.
+   * @returns Whether the lock was taken; after LOCK_WAIT_MS the caller goes ahead without it,
+   * since losing a charge beats never recording any
+   */
+  private async acquireLock(lockFile: string): Promise<boolean> {
+    const deadline = Date.now() + LOCK_WAIT_MS;
+    await fs.promises.mkdir(path.dirname(lockFile), { recursive: true });
+
+    for (;;) {
+      try {
+        await (await fs.promises.open(lockFile, 'wx')).close();
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const lockedAt = await fs.promises.stat(lockFile).then(stats => stats.mtimeMs, () => Date.now());
+      if (Date.now() - lockedAt > LOCK_STALE_MS) {
+        await fs.promises.rm(lockFile, { force: true });
+      } else if (Date.now() > deadline) {
+        console.error('Quota ledger is still locked by another process, writing without the lock');
+        return false;
+      } else {
+        await sleep(LOCK_RETRY_MS);
+      }
+    }
+  }
+
+  /**
+   * Last write before the process ends, when nothing asynchronous runs any more. It takes
+   * the lock if it is free but does not wait for it.
+   */
+  private flushOnExit(): void {
+    if (!this.shared || !this.config.ledgerFile || !Object.keys(this.unsaved).length) {
+      return;
+    }
+
+    const lockFile = `${this.config.ledgerFile}.lock`;
+    let locked = false;
+    try {
+      fs.closeSync(fs.openSync(lockFile, 'wx'));
+      locked = true;
+    } catch {
+      // Held by another process or the directory is missing; write anyway
+    }
+
+    try {
+      let fileDays: Record<string, DailyQuotaUsage> = {};
+      try {
+        fileDays = JSON.parse(fs.readFileSync(this.config.ledgerFile, 'utf8'));
+      } catch {
+        // A missing or unreadable file leaves only this process's usage to write
+      }
+      this.merge(fileDays);
+    } finally {
+      if (locked) {
+        fs.rmSync(lockFile, { force: true });
+      }
+    }
+  }
+
+  private load(): void {
+    if (!this.config.ledgerFile) {
+      return;
+    }
+
+    try {
+      this.days = JSON.parse(fs.readFileSync(this.config.ledgerFile, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Error reading quota ledger:', error);
+      }
+    }
+  }
+}
@@ -0,0 +1,178 @@
+import { isRetryable, toYouTubeError } from './errors.js';
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_BASE_MS = 500;
+const MAX_RETRY_DELAY_MS = 30000; // Longest single wait, including a server's Retry-After
+
+// Requests per second. Keys are endpoints ("search.list"), endpoint groups ("scraper" covers
+// "scraper.watch" and "scraper.timedtext"), or "*" for everything else
+const DEFAULT_RATE_LIMITS: Record<string, number> = {
+  '*': 10,
+  'search.list': 2, // 100 units each, so a runaway loop should not drain the quota in seconds
+  scraper: 2 // Watch pages are not an API; fast bursts get answered with bot checks
+};
+
+export interface RequestExecutorConfig {
+  concurrency: number; // Requests in flight at once, across all endpoints
+  maxRetries: number; // Retries after the first attempt; 0 disables retrying
+  retryBaseMs: number; // First backoff delay, doubled on each retry
+  rateLimits: Record<string, number>;
+}
+
+function readPositiveInteger(name: string, fallback: number, allowZero: boolean = false): number {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') {
+    return fallback;
+  }
+
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < (allowZero ? 0 : 1)) {
+    console.error(`Ignoring invalid ${name}=${value}, using ${fallback}`);
+    return fallback;
+  }
+
+  return number;
+}
+
+function readRateLimits(): Record<string, number> {
+  const limits = { ...DEFAULT_RATE_LIMITS };
+  const value = process.env.REQUEST_RATE_LIMITS;
+
+  for (const entry of (value || '').split(',').map(item => item.trim()).filter(Boolean)) {
+    const [endpoint, rate] = entry.split('=').map(item => item.trim());
+    const perSecond = Number(rate);
+
+    if (!endpoint || !Number.isFinite(perSecond) || perSecond < 0) {
+      console.error(`Ignoring invalid REQUEST_RATE_LIMITS entry "${entry}"`);
+      continue;
+    }
+    limits[endpoint] = perSecond;
+  }
+
+  return limits;
+}
+
+/**
+ * Reads request settings from the environment:
+ * REQUEST_CONCURRENCY, REQUEST_MAX_RETRIES, REQUEST_RETRY_BASE_MS and
+ * REQUEST_RATE_LIMITS (requests per second, e.g. "search.list=1,scraper=0.5"; 0 disables a limit)
+ */
+export function loadRequestExecutorConfig(): RequestExecutorConfig {
+  return {
+    concurrency: readPositiveInteger('REQUEST_CONCURRENCY', DEFAULT_CONCURRENCY),
+    maxRetries: readPositiveInteger('REQUEST_MAX_RETRIES', DEFAULT_MAX_RETRIES, true),
+    retryBaseMs: readPositiveInteger('REQUEST_RETRY_BASE_MS', DEFAULT_RETRY_BASE_MS, true),
+    rateLimits: readRateLimits()
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Reads a Retry-After header (seconds or an HTTP date) from a Google API error response
+ */
+function retryAfterMs(error: unknown): number | undefined {
+  const headers = (error as { response?: { headers?: unknown } })?.response?.headers as
+    { get?: (name: string) => string | null } & Record<string, unknown> | undefined;
+  const value = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+  if (typeof value !== 'string' || !value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(value) - Date.now();
+  return Number.isFinite(ms) && ms > 0 ? ms : undefined;
+}
+
+/**
+ * Runs every outgoing request of the server, to the Data API and to YouTube's watch pages.
+ * It keeps at most `concurrency` requests in flight, spaces requests to each endpoint to its
+ * rate limit, and retries failures classified as retryable (rate limits, 5xx responses and
+ * network errors) with exponential backoff and full jitter. Other failures are thrown at once.
+ */
+export class RequestExecutor {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private nextSlot = new Map<string, number>(); // Earliest start time per rate-limited key
+
+  constructor(private config: RequestExecutorConfig) {}
+
+  /**
+   * Runs a request, retrying it while it fails with a retryable error
+   * @param endpoint Endpoint name used for rate limiting and logging, e.g. "videos.list"
+   * @param request Performs one attempt; it is called again for each retry
+   */
+  async run<T>(endpoint: string, request: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.runOnce(endpoint, request);
+      } catch (error) {
+        if (!isRetryable(error) || attempt >= this.config.maxRetries) {
+          throw error;
+        }
+
+        const backoff = Math.min(MAX_RETRY_DELAY_MS, this.config.retryBaseMs * 2 ** attempt);
+        const delay = Math.min(MAX_RETRY_DELAY_MS, Math.max(retryAfterMs(error) ?? 0, Math.random() * backoff));
+        console.error(`${endpoint} failed with ${toYouTubeError(error).code}, retrying in ${Math.round(delay)} ms (attempt ${attempt + 2} of ${this.config.maxRetries + 1})`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  private async runOnce<T>(endpoint: string, request: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      await this.throttle(endpoint);
+      return await request();
+    } finally {
+      this.release();
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active < this.config.concurrency) {
+      this.active++;
+      return;
+    }
+    // The slot is handed over by release, so active stays counted
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  /**
+   * Waits until the endpoint's rate limit allows another request, reserving that slot
+   */
+  private async throttle(endpoint: string): Promise<void> {
+    const key = this.rateLimitKey(endpoint);
+    const perSecond = this.config.rateLimits[key];
+    if (!perSecond) {
+      return;
+    }
+
+    const now = Date.now();
+    const start = Math.max(now, this.nextSlot.get(key) ?? 0);
+    this.nextSlot.set(key, start + 1000 / perSecond);
+
+    if (start > now) {
+      await sleep(start - now);
+    }
+  }
+
+  private rateLimitKey(endpoint: string): string {
+    const group = endpoint.split('.')[0];
+    return endpoint in this.config.rateLimits ? endpoint
+      : group in this.config.rateLimits ? group
+        : '*';
+  }
+}
@@ -0,0 +1,226 @@
+import { TranscriptSegment } from '../types/youtube-types.js';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ttml' | 'json3';
+
+export const SUBTITLE_FORMATS: readonly SubtitleFormat[] = ['srt', 'vtt', 'ttml', 'json3'];
+
+export function isSubtitleFormat(format: string | undefined): format is SubtitleFormat {
+  return !!format && (SUBTITLE_FORMATS as readonly string[]).includes(format);
+}
+
+/**
+ * Formats a millisecond offset as HH:MM:SS<separator>mmm, the cue timing used by SRT, WebVTT and TTML
+ * @param milliseconds Offset in milliseconds
+ * @param separator Character between seconds and milliseconds (',' for SRT, '.' for WebVTT/TTML)
+ */
+export function formatCueTimestamp(milliseconds: number, separator: ',' | '.' = '.'): string {
+  const totalMs = Math.max(0, Math.round(milliseconds));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const seconds = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(seconds, 2)}${separator}${pad(ms, 3)}`;
+}
+
+/**
+ * Decodes the HTML entities caption sources commonly leave in cue text,
+ * so that re-escaping for the target format does not double-escape them
+ */
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Normalizes cue text: decodes entities and removes blank lines, which would end a cue early
+ */
+function normalizeCueText(text: string): string {
+  return decodeEntities(text)
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .join('\n');
+}
+
+function escapeMarkup(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function escapeXml(text: string): string {
+  return escapeMarkup(text)
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function pad(value: number, length: number): string {
+  return value.toString().padStart(length, '0');
+}
+
+/**
+ * Renders segments as SubRip (.srt). SRT has no escaping rules, so cue text is
+ * kept as plain text with any leftover entities decoded
+ */
+export function toSrt(segments: TranscriptSegment[]): string {
+  return segments.map((segment, index) => {
+    const start = formatCueTimestamp(segment.offset, ',');
+    const end = formatCueTimestamp(segment.offset + segment.duration, ',');
+    return `${index + 1}\n${start} --> ${end}\n${normalizeCueText(segment.text)}\n`;
+  }).join('\n');
+}
+
+/**
+ * Renders segments as WebVTT (.vtt), escaping &, < and > as the spec requires
+ */
+export function toVtt(segments: TranscriptSegment[]): string {
+  const cues = segments.map(segment => {
+    const start = formatCueTimestamp(segment.offset);
+    const end = formatCueTimestamp(segment.offset + segment.duration);
+    return `${start} --> ${end}\n${escapeMarkup(normalizeCueText(segment.text))}\n`;
+  });
+
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+/**
+ * Renders segments as a TTML document with XML-escaped cue text
+ */
+export function toTtml(segments: TranscriptSegment[], language?: string): string {
+  const lang = escapeXml(language || 'en');
+  const paragraphs = segments.map(segment => {
+    const begin = formatCueTimestamp(segment.offset);
+    const end = formatCueTimestamp(segment.offset + segment.duration);
+    const text = normalizeCueText(segment.text).split('\n').map(escapeXml).join('<br/>');
+    return `      <p begin="${begin}" end="${end}">${text}</p>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="http://www.w3.org/ns/ttml" xml:lang="${lang}">`,
+    '  <body>',
+    '    <div>',
+    ...paragraphs,
+    '    </div>',
+    '  </body>',
+    '</tt>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Renders segments in YouTube's json3 timed-text layout
+ */
+export function toJson3(segments: TranscriptSegment[]): string {
+  const events = segments.map(segment => ({
+    tStartMs: Math.round(segment.offset),
+    dDurationMs: Math.round(segment.duration),
+    segs: [{ utf8: normalizeCueText(segment.text) }]
+  }));
+
+  return JSON.stringify({ events }, null, 2);
+}
+
+export function renderSubtitles(
+  segments: TranscriptSegment[],
+  format: SubtitleFormat,
+  language?: string
+): string {
+  switch (format) {
+    case 'srt':
+      return toSrt(segments);
+    case 'vtt':
+      return toVtt(segments);
+    case 'ttml':
+      return toTtml(segments, language);
+    case 'json3':
+      return toJson3(segments);
+  }
+}
+
+/**
+ * Parses an SRT/WebVTT cue timestamp ("01:02:03,456", "02:03.456") into milliseconds
+ */
+export function parseCueTimestamp(timestamp: string): number {
+  const match = timestamp.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) {
+    throw new Error(`Invalid cue timestamp: ${timestamp}`);
+  }
+
+  const [, hours = '0', minutes, seconds, fraction = '0'] = match;
+  return Number(hours) * 3600000 + Number(minutes) * 60000 + Number(seconds) * 1000 +
+    Number(fraction.padEnd(3, '0'));
+}
+
+/**
+ * Parses SubRip or WebVTT cues into transcript segments. Cue settings, identifiers,
+ * NOTE/STYLE blocks and inline tags are dropped.
+ */
+export function parseCues(content: string): TranscriptSegment[] {
+  const blocks = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const segments: TranscriptSegment[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(line => line.trim().length > 0);
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+
+    if (timingIndex === -1) {
+      continue; // WEBVTT header, NOTE, STYLE or REGION block
+    }
+
+    const [start, rest] = lines[timingIndex].split('-->');
+    const end = rest.trim().split(/\s+/)[0]; // Drop WebVTT cue settings
+    const offset = parseCueTimestamp(start);
+    const text = decodeEntities(lines.slice(timingIndex + 1).join('\n').replace(/<[^>]+>/g, '')).trim();
+
+    if (text) {
+      segments.push({ text, offset, duration: Math.max(0, parseCueTimestamp(end) - offset) });
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Parses a JSON transcript: this server's own segment array ({ text, offset, duration } in ms),
+ * the { text, start, dur } array produced by most caption scrapers (seconds), or YouTube json3
+ */
+export function parseJsonTranscript(content: string): TranscriptSegment[] {
+  const data = JSON.parse(content);
+
+  if (data && Array.isArray(data.events)) {
+    return data.events
+      .filter((event: { segs?: unknown[] }) => Array.isArray(event.segs))
+      .map((event: { tStartMs?: number; dDurationMs?: number; segs: Array<{ utf8?: string }> }) => ({
+        text: event.segs.map(seg => seg.utf8 || '').join('').trim(),
+        offset: event.tStartMs || 0,
+        duration: event.dDurationMs || 0
+      }))
+      .filter((segment: TranscriptSegment) => segment.text.length > 0);
+  }
+
+  if (!Array.isArray(data)) {
+    throw new Error('Unsupported JSON transcript: expected an array of cues or a json3 document');
+  }
+
+  return data.map((item: { text?: string; offset?: number; duration?: number; start?: number | string; dur?: number | string }) => {
+    if (typeof item.offset === 'number') {
+      return { text: item.text || '', offset: item.offset, duration: item.duration || 0 };
+    }
+
+    return {
+      text: item.text || '',
+      offset: Math.round(Number(item.start || 0) * 1000),
+      duration: Math.round(Number(item.dur || 0) * 1000)
+    };
+  });
+}
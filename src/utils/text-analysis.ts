@@ -0,0 +1,158 @@
+import { TranscriptSegment } from '../types/youtube-types.js';
+
+/**
+ * A run of consecutive transcript segments treated as one unit of text
+ */
+export interface TextWindow {
+  segments: TranscriptSegment[];
+  text: string;
+  startTime: number; // Milliseconds
+  endTime: number; // Milliseconds
+  terms: string[]; // Content terms in order, stop words removed
+}
+
+// Common English function words plus the fillers that pad spoken transcripts
+const STOP_WORDS = new Set([
+  'a', 'about', 'above', 'actually', 'after', 'again', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'basically', 'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'doing', 'don\'t', 'down', 'during', 'each', 'even', 'every',
+  'few', 'finally', 'first', 'for', 'from', 'further', 'get', 'gets', 'getting', 'go', 'goes', 'going', 'gonna', 'got', 'gotta',
+  'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'him', 'his', 'how',
+  'i', 'i\'m', 'if', 'in', 'into', 'is', 'it', 'it\'s', 'its', 'just', 'kind', 'know', 'let\'s', 'like',
+  'let', 'lot', 'make', 'me', 'might', 'more', 'most', 'much', 'must', 'my', 'next', 'no', 'nor', 'not', 'now',
+  'of', 'off', 'oh', 'ok', 'okay', 'on', 'once', 'one', 'only', 'or', 'other', 'our', 'ours', 'out', 'over', 'own',
+  'pretty', 'really', 'right', 'said', 'same', 'say', 'see', 'she', 'should', 'so', 'some', 'something',
+  'sort', 'still', 'such', 'than', 'thanks', 'that', 'that\'s', 'the', 'their', 'theirs', 'them', 'then', 'there',
+  'there\'s', 'these', 'they', 'thing', 'things', 'think', 'this', 'those', 'through', 'to', 'today', 'too',
+  'uh', 'um', 'under', 'until', 'up', 'us', 'very', 'want', 'was', 'way', 'we', 'we\'re', 'well', 'were',
+  'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with', 'would', 'yeah', 'yes',
+  'you', 'you\'re', 'your', 'yours'
+]);
+
+/**
+ * Splits text into lowercase word tokens, keeping letters and digits of any script
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+(?:'[\p{L}]+)?/gu) || [];
+}
+
+export function isStopWord(token: string): boolean {
+  return STOP_WORDS.has(token) || token.length < 2 || /^\d+$/.test(token);
+}
+
+/**
+ * Tokens of a text with stop words, single letters and bare numbers removed
+ */
+export function contentTerms(text: string): string[] {
+  return tokenize(text).filter(token => !isStopWord(token));
+}
+
+/**
+ * Joins consecutive segments into one window of text
+ */
+export function toWindow(segments: TranscriptSegment[]): TextWindow {
+  const last = segments[segments.length - 1];
+  const text = segments.map(segment => segment.text.trim()).join(' ').replace(/\s+/g, ' ');
+
+  return {
+    segments,
+    text,
+    startTime: segments[0].offset,
+    endTime: last.offset + last.duration,
+    terms: contentTerms(text)
+  };
+}
+
+/**
+ * Groups segments into windows of roughly the target length. A window closes early at the
+ * end of a sentence once it has reached half the target, so windows tend to hold whole sentences.
+ * @param segments Transcript segments in time order
+ * @param targetMs Target window length in milliseconds
+ */
+export function buildWindows(segments: TranscriptSegment[], targetMs: number): TextWindow[] {
+  const windows: TextWindow[] = [];
+  let current: TranscriptSegment[] = [];
+
+  const flush = () => {
+    if (current.length) {
+      windows.push(toWindow(current));
+      current = [];
+    }
+  };
+
+  for (const segment of segments) {
+    current.push(segment);
+    const length = segment.offset + segment.duration - current[0].offset;
+    const sentenceEnd = /[.!?…]["')\]]?$/.test(segment.text.trim());
+
+    if (length >= targetMs || (sentenceEnd && length >= targetMs / 2)) {
+      flush();
+    }
+  }
+  flush();
+
+  return windows;
+}
+
+/**
+ * Term frequency of each term in a list
+ */
+export function termFrequencies(terms: string[]): Map<string, number> {
+  const frequencies = new Map<string, number>();
+  for (const term of terms) {
+    frequencies.set(term, (frequencies.get(term) || 0) + 1);
+  }
+  return frequencies;
+}
+
+/**
+ * Builds a TF-IDF vector for each window, with IDF taken over the windows themselves
+ */
+export function tfidfVectors(windows: TextWindow[]): Array<Map<string, number>> {
+  const documentFrequency = new Map<string, number>();
+  const frequencies = windows.map(window => termFrequencies(window.terms));
+
+  for (const terms of frequencies) {
+    for (const term of terms.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  return frequencies.map(terms => {
+    const vector = new Map<string, number>();
+    for (const [term, frequency] of terms) {
+      const idf = Math.log(1 + windows.length / (documentFrequency.get(term) || 1));
+      vector.set(term, (1 + Math.log(frequency)) * idf);
+    }
+    return vector;
+  });
+}
+
+export function cosineSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (const [term, weight] of a) {
+    normA += weight * weight;
+    const other = b.get(term);
+    if (other !== undefined) {
+      dot += weight * other;
+    }
+  }
+  for (const weight of b.values()) {
+    normB += weight * weight;
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * The highest-weighted terms of a vector, strongest first
+ */
+export function topTerms(vector: Map<string, number>, count: number): string[] {
+  return Array.from(vector.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, count)
+    .map(([term]) => term);
+}
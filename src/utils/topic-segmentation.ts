@@ -0,0 +1,205 @@
+import { TranscriptSection, TranscriptSegment } from '../types/youtube-types.js';
+import { contentTerms, cosineSimilarity, termFrequencies, tfidfVectors, toWindow, topTerms } from './text-analysis.js';
+
+const SEQUENCE_TERMS = 20; // Content terms per pseudo-sentence (TextTiling's w)
+const BLOCK_SIZE = 6; // Pseudo-sentences compared on each side of a gap (TextTiling's k)
+const MIN_SECTION_SEQUENCES = 2; // Boundaries must be at least this many pseudo-sentences apart
+const SNAP_DISTANCE = 2; // Captions a boundary may move to land on the longest pause
+const TOP_TERMS = 5;
+
+interface PseudoSentence {
+  firstSegment: number;
+  terms: string[];
+}
+
+/**
+ * Groups captions into pseudo-sentences of about SEQUENCE_TERMS content terms each
+ */
+function buildSequences(segments: TranscriptSegment[]): PseudoSentence[] {
+  const sequences: PseudoSentence[] = [];
+  let current: PseudoSentence | null = null;
+
+  segments.forEach((segment, index) => {
+    if (!current) {
+      current = { firstSegment: index, terms: [] };
+      sequences.push(current);
+    }
+    current.terms.push(...contentTerms(segment.text));
+    if (current.terms.length >= SEQUENCE_TERMS) {
+      current = null;
+    }
+  });
+
+  // A short trailing sequence would produce a spurious dip, so fold it into the previous one
+  const last = sequences[sequences.length - 1];
+  if (sequences.length > 1 && last.terms.length < SEQUENCE_TERMS / 2) {
+    sequences.pop();
+    sequences[sequences.length - 1].terms.push(...last.terms);
+  }
+
+  return sequences;
+}
+
+/**
+ * Lexical cohesion across each gap between pseudo-sentences: the cosine similarity of the
+ * term frequencies in the blocks on either side, smoothed with its neighbours
+ */
+function gapSimilarities(sequences: PseudoSentence[]): number[] {
+  const blockSize = Math.min(BLOCK_SIZE, Math.floor(sequences.length / 2));
+  const raw: number[] = [];
+
+  for (let gap = 0; gap < sequences.length - 1; gap++) {
+    const left = sequences.slice(Math.max(0, gap - blockSize + 1), gap + 1).flatMap(sequence => sequence.terms);
+    const right = sequences.slice(gap + 1, gap + 1 + blockSize).flatMap(sequence => sequence.terms);
+    raw.push(cosineSimilarity(termFrequencies(left), termFrequencies(right)));
+  }
+
+  return raw.map((_, i) => {
+    const neighbours = raw.slice(Math.max(0, i - 1), i + 2);
+    return neighbours.reduce((sum, value) => sum + value, 0) / neighbours.length;
+  });
+}
+
+/**
+ * Depth of each similarity valley: how far cohesion drops from the nearest peaks on both sides
+ */
+function depthScores(similarities: number[]): number[] {
+  return similarities.map((similarity, gap) => {
+    let left = gap;
+    while (left > 0 && similarities[left - 1] >= similarities[left]) {
+      left--;
+    }
+    let right = gap;
+    while (right < similarities.length - 1 && similarities[right + 1] >= similarities[right]) {
+      right++;
+    }
+    return (similarities[left] - similarity) + (similarities[right] - similarity);
+  });
+}
+
+/**
+ * Moves a boundary to the nearby caption that follows the longest pause, since speakers
+ * usually pause when changing topic
+ */
+function snapToPause(segments: TranscriptSegment[], index: number, min: number, max: number): number {
+  let best = index;
+  let bestPause = -Infinity;
+
+  for (let candidate = Math.max(min, index - SNAP_DISTANCE); candidate <= Math.min(max, index + SNAP_DISTANCE); candidate++) {
+    const previous = segments[candidate - 1];
+    const pause = segments[candidate].offset - (previous.offset + previous.duration);
+    if (pause > bestPause) {
+      best = candidate;
+      bestPause = pause;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Describes consecutive groups of captions as sections with time ranges, caption indices
+ * and their most distinctive terms (TF-IDF across the sections)
+ * @param segments Transcript segments in time order
+ * @param starts Index of the first caption of every section after the first, ascending
+ * @param boundaryScores Optional score of each boundary in starts
+ */
+export function describeSections(
+  segments: TranscriptSegment[],
+  starts: number[],
+  boundaryScores: number[] = []
+): TranscriptSection[] {
+  if (!segments.length) {
+    return [];
+  }
+
+  const bounds = [0, ...starts, segments.length];
+  const windows = bounds.slice(0, -1).map((start, i) => toWindow(segments.slice(start, bounds[i + 1])));
+  const vectors = tfidfVectors(windows);
+
+  return windows.map((window, i) => ({
+    index: i,
+    startTime: window.startTime / 1000,
+    endTime: window.endTime / 1000,
+    firstSegment: bounds[i],
+    lastSegment: bounds[i + 1] - 1,
+    boundaryScore: i > 0 && boundaryScores[i - 1] !== undefined ? Number(boundaryScores[i - 1].toFixed(3)) : undefined,
+    topTerms: topTerms(vectors[i], TOP_TERMS)
+  }));
+}
+
+/**
+ * Splits a transcript into sections with the same number of captions each
+ */
+export function segmentEqually(segments: TranscriptSegment[], count: number): TranscriptSection[] {
+  const size = Math.ceil(segments.length / Math.max(1, count));
+  const starts: number[] = [];
+
+  for (let start = size; start < segments.length; start += size) {
+    starts.push(start);
+  }
+
+  return describeSections(segments, starts);
+}
+
+/**
+ * Splits a transcript where the topic shifts, using TextTiling: pseudo-sentences of ~20 content
+ * terms are compared block against block, and boundaries go where lexical cohesion dips deepest.
+ * @param segments Transcript segments in time order
+ * @param count Maximum number of sections. When omitted, every valley deeper than
+ * mean - stddev/2 (over all valleys) becomes a boundary.
+ */
+export function segmentByTopic(segments: TranscriptSegment[], count?: number): TranscriptSection[] {
+  const sequences = buildSequences(segments);
+
+  if (sequences.length < 2 * MIN_SECTION_SEQUENCES || count === 1) {
+    return describeSections(segments, []);
+  }
+
+  const similarities = gapSimilarities(sequences);
+  const depths = depthScores(similarities);
+
+  // Only valleys (gaps less cohesive than both neighbours) can be boundaries
+  const valleys = depths
+    .map((depth, gap) => ({ depth, gap }))
+    .filter(({ depth, gap }) => depth > 0 &&
+      similarities[gap] <= (similarities[gap - 1] ?? Infinity) &&
+      similarities[gap] <= (similarities[gap + 1] ?? Infinity));
+
+  if (!valleys.length) {
+    return describeSections(segments, []);
+  }
+
+  const mean = valleys.reduce((sum, { depth }) => sum + depth, 0) / valleys.length;
+  const deviation = Math.sqrt(valleys.reduce((sum, { depth }) => sum + (depth - mean) ** 2, 0) / valleys.length);
+  const threshold = count ? 0 : mean - deviation / 2;
+
+  const gaps = valleys
+    .filter(({ depth }) => depth > threshold)
+    .sort((a, b) => b.depth - a.depth);
+
+  const chosen: Array<{ depth: number; gap: number }> = [];
+  for (const candidate of gaps) {
+    if (count && chosen.length >= count - 1) {
+      break;
+    }
+    // Sections shorter than MIN_SECTION_SEQUENCES pseudo-sentences are not topics
+    const tooClose = candidate.gap + 1 < MIN_SECTION_SEQUENCES ||
+      sequences.length - (candidate.gap + 1) < MIN_SECTION_SEQUENCES ||
+      chosen.some(other => Math.abs(other.gap - candidate.gap) < MIN_SECTION_SEQUENCES);
+    if (!tooClose) {
+      chosen.push(candidate);
+    }
+  }
+
+  chosen.sort((a, b) => a.gap - b.gap);
+
+  const starts: number[] = [];
+  chosen.forEach(({ gap }, i) => {
+    const min = Math.max(1, (starts[i - 1] ?? 0) + 1);
+    const max = i + 1 < chosen.length ? sequences[chosen[i + 1].gap + 1].firstSegment - 1 : segments.length - 1;
+    starts.push(snapToPause(segments, sequences[gap + 1].firstSegment, min, max));
+  });
+
+  return describeSections(segments, starts, chosen.map(({ depth }) => depth));
+}
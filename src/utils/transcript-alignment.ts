@@ -0,0 +1,134 @@
+import { AlignedCue, TranscriptSegment } from '../types/youtube-types.js';
+import { renderSubtitles } from './subtitle-formats.js';
+
+const MIN_OVERLAP_SHARE = 0.5; // Share of the shorter cue two cues must overlap by to be paired
+const MAX_GROUP_CUES = 8; // Cues per side in one row, so overlapping tracks cannot chain into one huge row
+
+interface Group {
+  a: number[];
+  b: number[];
+}
+
+function cueEnd(segment: TranscriptSegment): number {
+  return segment.offset + Math.max(segment.duration, 1);
+}
+
+function overlaps(a: TranscriptSegment, b: TranscriptSegment): boolean {
+  const overlap = Math.min(cueEnd(a), cueEnd(b)) - Math.max(a.offset, b.offset);
+  const shorter = Math.min(cueEnd(a) - a.offset, cueEnd(b) - b.offset);
+  return overlap > 0 && overlap >= shorter * MIN_OVERLAP_SHARE;
+}
+
+/**
+ * Groups cues of two tracks that cover the same speech. Cues are linked when they overlap by
+ * at least half of the shorter one, and linked cues form one row, so a sentence split into two
+ * cues in one language and kept whole in the other still lines up. Cues with no counterpart
+ * get a row of their own with the other side empty.
+ */
+function groupCues(a: TranscriptSegment[], b: TranscriptSegment[]): Group[] {
+  const groups: Group[] = [];
+  const groupOfA = new Map<number, Group>();
+  const groupOfB = new Map<number, Group>();
+  let firstCandidate = 0;
+
+  a.forEach((cueA, i) => {
+    // Tracks are in time order, so cues of b that ended before this cue can be skipped
+    while (firstCandidate < b.length && cueEnd(b[firstCandidate]) <= cueA.offset) {
+      firstCandidate++;
+    }
+
+    for (let j = firstCandidate; j < b.length && b[j].offset < cueEnd(cueA); j++) {
+      if (!overlaps(cueA, b[j])) {
+        continue;
+      }
+
+      const group = groupOfA.get(i) || groupOfB.get(j);
+      if (!group) {
+        const created = { a: [i], b: [j] };
+        groups.push(created);
+        groupOfA.set(i, created);
+        groupOfB.set(j, created);
+      } else if (!groupOfA.has(i) && group.a.length < MAX_GROUP_CUES) {
+        group.a.push(i);
+        groupOfA.set(i, group);
+      } else if (!groupOfB.has(j) && group.b.length < MAX_GROUP_CUES) {
+        group.b.push(j);
+        groupOfB.set(j, group);
+      }
+    }
+  });
+
+  a.forEach((_, i) => {
+    if (!groupOfA.has(i)) {
+      groups.push({ a: [i], b: [] });
+    }
+  });
+  b.forEach((_, j) => {
+    if (!groupOfB.has(j)) {
+      groups.push({ a: [], b: [j] });
+    }
+  });
+
+  const start = (group: Group) => Math.min(...group.a.map(i => a[i].offset), ...group.b.map(j => b[j].offset));
+  return groups.sort((x, y) => start(x) - start(y));
+}
+
+/**
+ * Aligns two caption tracks of the same video by time overlap
+ * @param a Cues of the first language, in time order
+ * @param b Cues of the second language, in time order
+ * @returns One row per stretch of speech, with the text of each language (empty when one track has no cue there)
+ */
+export function alignTranscripts(a: TranscriptSegment[], b: TranscriptSegment[]): AlignedCue[] {
+  return groupCues(a, b).map((group, index) => {
+    const cuesA = group.a.sort((x, y) => x - y).map(i => a[i]);
+    const cuesB = group.b.sort((x, y) => x - y).map(j => b[j]);
+    const all = [...cuesA, ...cuesB];
+    const start = Math.min(...all.map(cue => cue.offset));
+    const end = Math.max(...all.map(cueEnd));
+
+    return {
+      index,
+      startTime: start / 1000,
+      endTime: end / 1000,
+      textA: cuesA.map(cue => cue.text.replace(/\s+/g, ' ').trim()).join(' '),
+      textB: cuesB.map(cue => cue.text.replace(/\s+/g, ' ').trim()).join(' '),
+      cuesA: cuesA.length,
+      cuesB: cuesB.length
+    };
+  });
+}
+
+/**
+ * Renders aligned rows as a markdown table with one column per language
+ */
+export function renderAlignmentMarkdown(rows: AlignedCue[], languageA: string, languageB: string): string {
+  const cell = (text: string) => text.replace(/\|/g, '\\|') || ' ';
+  const time = (seconds: number) => {
+    const total = Math.floor(seconds);
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60).toString().padStart(2, '0');
+    const secs = (total % 60).toString().padStart(2, '0');
+    return hours > 0 ? `${hours}:${minutes}:${secs}` : `${minutes}:${secs}`;
+  };
+
+  return [
+    `| Time | ${cell(languageA)} | ${cell(languageB)} |`,
+    '|------|------|------|',
+    ...rows.map(row => `| ${time(row.startTime)} | ${cell(row.textA)} | ${cell(row.textB)} |`)
+  ].join('\n');
+}
+
+/**
+ * Renders aligned rows as one SRT file whose cues show both languages, one per line
+ */
+export function renderAlignmentSrt(rows: AlignedCue[]): string {
+  return renderSubtitles(
+    rows.map(row => ({
+      text: [row.textA, row.textB].filter(Boolean).join('\n'),
+      offset: Math.round(row.startTime * 1000),
+      duration: Math.round((row.endTime - row.startTime) * 1000)
+    })),
+    'srt'
+  );
+}
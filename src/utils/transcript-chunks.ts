@@ -0,0 +1,105 @@
+import { TranscriptChunk, TranscriptChunkOptions, TranscriptSegment, YouTubeError } from '../types/youtube-types.js';
+
+export const DEFAULT_CHUNK_TOKENS = 4000;
+export const DEFAULT_CHUNK_OVERLAP_TOKENS = 200;
+export const MIN_CHUNK_TOKENS = 200;
+
+const LINE_OVERHEAD_TOKENS = 5; // "[hh:mm:ss] " prefix and line break of a timestamped line
+const SENTENCE_CUT_WINDOW = 0.2; // Share at the end of a full chunk searched for a sentence end to cut at
+
+// Scripts written without spaces, where a tokenizer spends about one token per character
+const DENSE_SCRIPT = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]/g;
+
+/**
+ * Estimates how many model tokens a text costs: about four characters per token for
+ * alphabetic scripts and one per character for CJK and Hangul
+ */
+export function estimateTokens(text: string): number {
+  const dense = text.match(DENSE_SCRIPT)?.length || 0;
+  return Math.ceil(dense + (text.length - dense) / 4);
+}
+
+function segmentTokens(segment: TranscriptSegment): number {
+  return estimateTokens(segment.text) + LINE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Splits a transcript into chunks that each fit a token budget. A full chunk is cut after the
+ * last sentence end near its limit when there is one, and each chunk after the first repeats
+ * about overlapTokens of the previous one so no passage loses its context at a boundary.
+ * @param segments Transcript segments in time order
+ * @returns Chunks numbered from 1; a single segment larger than the budget becomes its own chunk
+ */
+export function chunkTranscript(segments: TranscriptSegment[], options: TranscriptChunkOptions = {}): TranscriptChunk[] {
+  const maxTokens = Math.max(MIN_CHUNK_TOKENS, options.maxTokens ?? DEFAULT_CHUNK_TOKENS);
+  // Overlap beyond half a chunk would make every chunk mostly a repeat
+  const overlapTokens = Math.min(Math.max(0, options.overlapTokens ?? DEFAULT_CHUNK_OVERLAP_TOKENS), Math.floor(maxTokens / 2));
+  const costs = segments.map(segmentTokens);
+  const ranges: Array<{ first: number; last: number; tokens: number }> = [];
+  let first = 0;
+
+  while (first < segments.length) {
+    let last = first;
+    let tokens = costs[first];
+    while (last + 1 < segments.length && tokens + costs[last + 1] <= maxTokens) {
+      last++;
+      tokens += costs[last];
+    }
+
+    // Prefer ending on a sentence when the chunk is full
+    if (last + 1 < segments.length) {
+      let cutTokens = tokens;
+      for (let i = last; i > first && cutTokens >= maxTokens * (1 - SENTENCE_CUT_WINDOW); i--) {
+        if (/[.!?…]["')\]]?$/.test(segments[i].text.trim())) {
+          tokens = cutTokens;
+          last = i;
+          break;
+        }
+        cutTokens -= costs[i];
+      }
+    }
+
+    ranges.push({ first, last, tokens });
+    if (last + 1 >= segments.length) {
+      break;
+    }
+
+    // Step back over the overlap, always moving forward by at least one segment
+    let next = last + 1;
+    let repeated = 0;
+    while (next - 1 > first && repeated + costs[next - 1] <= overlapTokens) {
+      next--;
+      repeated += costs[next];
+    }
+    first = next;
+  }
+
+  return ranges.map((range, index) => {
+    const lastSegment = segments[range.last];
+    return {
+      chunk: index + 1,
+      totalChunks: ranges.length,
+      startTime: segments[range.first].offset / 1000,
+      endTime: (lastSegment.offset + lastSegment.duration) / 1000,
+      firstSegment: range.first,
+      lastSegment: range.last,
+      overlapSegments: index > 0 ? Math.max(0, ranges[index - 1].last - range.first + 1) : 0,
+      tokenEstimate: range.tokens,
+      segments: segments.slice(range.first, range.last + 1)
+    };
+  });
+}
+
+/**
+ * Picks a chunk by its number, explaining the valid range when it does not exist
+ */
+export function selectChunk(chunks: TranscriptChunk[], number: number): TranscriptChunk {
+  const chunk = chunks[number - 1];
+  if (!chunk) {
+    throw new YouTubeError({
+      code: 'INVALID_ARGUMENT',
+      message: `Chunk ${number} does not exist: the transcript has ${chunks.length} chunk${chunks.length === 1 ? '' : 's'} at this token budget`
+    });
+  }
+  return chunk;
+}
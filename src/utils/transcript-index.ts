@@ -0,0 +1,455 @@
+import { promises as fs, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import path from 'path';
+import { TranscriptSegment, TranscriptSearchHit } from '../types/youtube-types.js';
+import { tokenize } from './text-analysis.js';
+
+export interface TranscriptIndexConfig {
+  indexFile: string | null; // null keeps the index in memory only
+}
+
+interface IndexedTranscript {
+  videoId: string;
+  language?: string;
+  indexedAt: string;
+  segments: TranscriptSegment[];
+}
+
+interface Passage {
+  videoId: string;
+  language?: string;
+  segments: TranscriptSegment[];
+  tokens: string[];
+  segmentStarts: number[]; // Index into tokens where each segment begins
+  next?: number; // Following passage of the same transcript, for phrases that straddle the boundary
+}
+
+interface ParsedQuery {
+  terms: string[]; // Every distinct token, including those inside phrases
+  phrases: string[][]; // Quoted phrases, all of which must match
+}
+
+export interface TranscriptSearchOptions {
+  videoIds?: string[]; // Restrict the search to these videos
+  limit?: number;
+  maxHitsPerVideo?: number;
+}
+
+const PASSAGE_MS = 30000; // Target passage length; passages are the unit BM25 ranks
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const SNIPPET_CHARS = 240;
+const SAVE_DELAY_MS = 2000; // Coalesces the writes of a burst of ingested transcripts
+
+/**
+ * Reads index settings from the environment:
+ * TRANSCRIPT_INDEX_FILE (defaults to transcript-index.json in the cache directory)
+ */
+export function loadTranscriptIndexConfig(cacheDirectory: string | null): TranscriptIndexConfig {
+  return {
+    indexFile: process.env.TRANSCRIPT_INDEX_FILE ||
+      (cacheDirectory ? path.join(cacheDirectory, 'transcript-index.json') : null)
+  };
+}
+
+/**
+ * Identifies one transcript in the index: a video can be indexed in several languages
+ */
+function transcriptKey(videoId: string, language?: string): string {
+  return `${videoId}:${language || ''}`;
+}
+
+/**
+ * Whether two transcripts have the same cues, so that a corrected or re-fetched transcript
+ * with as many segments as the indexed one is still picked up
+ */
+function sameSegments(a: TranscriptSegment[], b: TranscriptSegment[]): boolean {
+  return a.length === b.length && a.every((segment, i) =>
+    segment.text === b[i].text && segment.offset === b[i].offset && segment.duration === b[i].duration
+  );
+}
+
+/**
+ * Parses a query into free terms and "quoted phrases"
+ */
+function parseQuery(query: string): ParsedQuery {
+  const phrases: string[][] = [];
+  const rest = query.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const tokens = tokenize(phrase);
+    if (tokens.length) {
+      phrases.push(tokens);
+    }
+    return ' ';
+  });
+
+  const terms = new Set([...phrases.flat(), ...tokenize(rest)]);
+  return { terms: Array.from(terms), phrases };
+}
+
+/**
+ * Position of the first occurrence of a phrase in a token list, or -1
+ */
+function findPhrase(tokens: string[], phrase: string[]): number {
+  outer: for (let i = 0; i <= tokens.length - phrase.length; i++) {
+    for (let j = 0; j < phrase.length; j++) {
+      if (tokens[i + j] !== phrase[j]) {
+        continue outer;
+      }
+    }
+    return i;
+  }
+  return -1;
+}
+
+/**
+ * Local full-text index over every transcript the server has fetched or ingested.
+ * Transcripts are split into ~30 second passages that are ranked with BM25;
+ * quoted phrases must appear verbatim. The source transcripts are persisted to one
+ * JSON file and the postings are rebuilt in memory on startup.
+ *
+ * Processes sharing the file merge into it: a save writes this process's new transcripts over
+ * what is on disk, and indexes the transcripts other processes saved in the meantime.
+ */
+export class TranscriptIndex {
+  private transcripts = new Map<string, IndexedTranscript>(); // By transcriptKey
+  private passages: Array<Passage | undefined> = [];
+  private freeIds: number[] = []; // Slots of removed passages, reused before the array grows
+  private passagesByTranscript = new Map<string, number[]>();
+  private postings = new Map<string, Map<number, number>>(); // term -> passage -> term frequency
+  private totalTokens = 0;
+  private passageCount = 0;
+  private unsaved = new Set<string>(); // Keys of transcripts added since the last save
+  private saveTimer: NodeJS.Timeout | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private config: TranscriptIndexConfig) {
+    this.load();
+
+    if (config.indexFile) {
+      // The save timer does not keep the process alive, so whatever it has not written yet is written here
+      process.once('exit', () => this.saveOnExit());
+    }
+  }
+
+  get size(): number {
+    return this.transcripts.size;
+  }
+
+  /**
+   * Whether a video has an indexed transcript, in one of the given languages when there are any
+   * ("en" and "en-GB" match each other)
+   */
+  has(videoId: string, languages: string[] = []): boolean {
+    const bases = languages.map(language => language.toLowerCase().split(/[-_]/)[0]);
+    for (const transcript of this.transcripts.values()) {
+      if (transcript.videoId === videoId &&
+        (!bases.length || bases.includes((transcript.language || '').toLowerCase().split(/[-_]/)[0]))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Adds or replaces the transcript of a video in one language; other languages of the video
+   * stay indexed. Re-adding an identical transcript is a no-op.
+   */
+  add(videoId: string, segments: TranscriptSegment[], language?: string): void {
+    const key = transcriptKey(videoId, language);
+    const existing = this.transcripts.get(key);
+    if (existing && sameSegments(existing.segments, segments)) {
+      return;
+    }
+
+    this.transcripts.set(key, { videoId, language, indexedAt: new Date().toISOString(), segments });
+    this.indexTranscript(key, videoId, language, segments);
+    this.unsaved.add(key);
+    this.scheduleSave();
+  }
+
+  /**
+   * Returns passages ranked by BM25. Every quoted phrase must match; free terms are optional
+   * but raise the score. Hits are capped per video so one long talk cannot fill the list.
+   */
+  search(query: string, options: TranscriptSearchOptions = {}): TranscriptSearchHit[] {
+    const { terms, phrases } = parseQuery(query);
+    const { limit = 20, maxHitsPerVideo = 3 } = options;
+    const allowed = options.videoIds ? new Set(options.videoIds) : null;
+
+    if (terms.length === 0 || this.passageCount === 0) {
+      return [];
+    }
+
+    const averageLength = this.totalTokens / this.passageCount;
+    const scores = new Map<number, number>();
+
+    for (const term of terms) {
+      const postings = this.postings.get(term);
+      if (!postings) {
+        continue;
+      }
+
+      const idf = Math.log(1 + (this.passageCount - postings.size + 0.5) / (postings.size + 0.5));
+      for (const [passageId, frequency] of postings) {
+        const passage = this.passages[passageId];
+        if (!passage || (allowed && !allowed.has(passage.videoId))) {
+          continue;
+        }
+
+        const norm = BM25_K1 * (1 - BM25_B + BM25_B * passage.tokens.length / averageLength);
+        const score = idf * frequency * (BM25_K1 + 1) / (frequency + norm);
+        scores.set(passageId, (scores.get(passageId) || 0) + score);
+      }
+    }
+
+    const ranked = Array.from(scores.entries())
+      .filter(([passageId]) => phrases.every(phrase => this.findPhraseIn(this.passages[passageId]!, phrase) !== -1))
+      .sort((a, b) => b[1] - a[1]);
+
+    const hits: TranscriptSearchHit[] = [];
+    const perVideo = new Map<string, number>();
+
+    for (const [passageId, score] of ranked) {
+      const passage = this.passages[passageId]!;
+      const count = perVideo.get(passage.videoId) || 0;
+      if (count >= maxHitsPerVideo) {
+        continue;
+      }
+
+      perVideo.set(passage.videoId, count + 1);
+      hits.push(this.toHit(passage, score, terms, phrases));
+      if (hits.length >= limit) {
+        break;
+      }
+    }
+
+    return hits;
+  }
+
+  private indexTranscript(key: string, videoId: string, language: string | undefined, segments: TranscriptSegment[]): void {
+    this.removeTranscript(key);
+
+    const ids: number[] = [];
+    let current: TranscriptSegment[] = [];
+
+    const flush = () => {
+      if (current.length) {
+        ids.push(this.addPassage(videoId, language, current));
+        current = [];
+      }
+    };
+
+    for (const segment of segments) {
+      if (current.length && segment.offset - current[0].offset >= PASSAGE_MS) {
+        flush();
+      }
+      current.push(segment);
+    }
+    flush();
+
+    ids.forEach((passageId, i) => {
+      this.passages[passageId]!.next = ids[i + 1];
+    });
+    this.passagesByTranscript.set(key, ids);
+  }
+
+  private addPassage(videoId: string, language: string | undefined, segments: TranscriptSegment[]): number {
+    const tokens: string[] = [];
+    const segmentStarts: number[] = [];
+
+    for (const segment of segments) {
+      segmentStarts.push(tokens.length);
+      tokens.push(...tokenize(segment.text));
+    }
+
+    const passageId = this.freeIds.pop() ?? this.passages.length;
+    this.passages[passageId] = { videoId, language, segments, tokens, segmentStarts };
+    this.passageCount++;
+    this.totalTokens += tokens.length;
+
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) || 0) + 1);
+    }
+    for (const [term, frequency] of frequencies) {
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Map());
+      }
+      this.postings.get(term)!.set(passageId, frequency);
+    }
+
+    return passageId;
+  }
+
+  private removeTranscript(key: string): void {
+    for (const passageId of this.passagesByTranscript.get(key) || []) {
+      const passage = this.passages[passageId];
+      if (!passage) {
+        continue;
+      }
+
+      for (const term of new Set(passage.tokens)) {
+        const postings = this.postings.get(term);
+        postings?.delete(passageId);
+        if (postings && postings.size === 0) {
+          this.postings.delete(term);
+        }
+      }
+
+      this.passageCount--;
+      this.totalTokens -= passage.tokens.length;
+      this.passages[passageId] = undefined;
+      this.freeIds.push(passageId);
+    }
+
+    this.passagesByTranscript.delete(key);
+  }
+
+  /**
+   * Position of a phrase in a passage, counting one that starts there and runs on into
+   * the next passage of the transcript, or -1
+   */
+  private findPhraseIn(passage: Passage, phrase: string[]): number {
+    const next = passage.next === undefined ? undefined : this.passages[passage.next];
+    const tokens = next ? passage.tokens.concat(next.tokens.slice(0, phrase.length - 1)) : passage.tokens;
+    const start = findPhrase(tokens, phrase);
+    return start < passage.tokens.length ? start : -1;
+  }
+
+  /**
+   * Anchors a hit at the first segment containing a phrase (or else a query term)
+   * and builds a snippet starting there
+   */
+  private toHit(passage: Passage, score: number, terms: string[], phrases: string[][]): TranscriptSearchHit {
+    const termSet = new Set(terms);
+    const phraseStart = phrases.length ? this.findPhraseIn(passage, phrases[0]) : -1;
+    const matchAt = phraseStart !== -1 ? phraseStart : passage.tokens.findIndex(token => termSet.has(token));
+
+    let segmentIndex = 0;
+    while (segmentIndex + 1 < passage.segmentStarts.length && passage.segmentStarts[segmentIndex + 1] <= matchAt) {
+      segmentIndex++;
+    }
+
+    const offset = passage.segments[segmentIndex].offset;
+    let snippet = passage.segments.slice(segmentIndex).map(segment => segment.text.trim()).join(' ').replace(/\s+/g, ' ');
+    if (snippet.length > SNIPPET_CHARS) {
+      snippet = `${snippet.slice(0, SNIPPET_CHARS).replace(/\s+\S*$/, '')}…`;
+    }
+
+    const seconds = Math.floor(offset / 1000);
+    return {
+      videoId: passage.videoId,
+      language: passage.language,
+      offset,
+      timestamp: formatHitTimestamp(seconds),
+      score: Number(score.toFixed(4)),
+      snippet,
+      url: `https://www.youtube.com/watch?v=${passage.videoId}&t=${seconds}s`
+    };
+  }
+
+  private scheduleSave(): void {
+    if (!this.config.indexFile || this.saveTimer) {
+      return;
+    }
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.saving = this.saving.then(() => this.save());
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  private load(): void {
+    if (!this.config.indexFile) {
+      return;
+    }
+
+    // Read synchronously so the first search after startup sees the whole index
+    try {
+      this.adopt(JSON.parse(readFileSync(this.config.indexFile, 'utf8')));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Error reading transcript index:', error);
+      }
+    }
+  }
+
+  /**
+   * Indexes stored transcripts, except those this process changed and has not saved yet
+   */
+  private adopt(stored: IndexedTranscript[]): void {
+    for (const transcript of stored) {
+      const key = transcriptKey(transcript.videoId, transcript.language);
+      const current = this.transcripts.get(key);
+      if (this.unsaved.has(key) || (current && current.indexedAt === transcript.indexedAt)) {
+        continue;
+      }
+      this.transcripts.set(key, transcript);
+      this.indexTranscript(key, transcript.videoId, transcript.language, transcript.segments);
+    }
+  }
+
+  private async save(): Promise<void> {
+    const indexFile = this.config.indexFile as string;
+    const tempPath = `${indexFile}.${process.pid}.tmp`;
+    let written: string[] = [];
+
+    try {
+      let stored: IndexedTranscript[] = [];
+      try {
+        stored = JSON.parse(await fs.readFile(indexFile, 'utf8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+
+      // Synchronous from here on, so a transcript added meanwhile is either written or stays unsaved
+      this.adopt(stored);
+      written = Array.from(this.unsaved);
+      this.unsaved.clear();
+
+      await fs.mkdir(path.dirname(indexFile), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(Array.from(this.transcripts.values())), 'utf8');
+      await fs.rename(tempPath, indexFile);
+    } catch (error) {
+      console.error('Error writing transcript index:', error);
+      // Tried again with the next save, or on exit
+      written.forEach(key => this.unsaved.add(key));
+    }
+  }
+
+  /**
+   * Last save before the process ends, when nothing asynchronous runs any more
+   */
+  private saveOnExit(): void {
+    if (!this.unsaved.size) {
+      return;
+    }
+
+    const indexFile = this.config.indexFile as string;
+    const tempPath = `${indexFile}.${process.pid}.tmp`;
+    try {
+      try {
+        this.adopt(JSON.parse(readFileSync(indexFile, 'utf8')));
+      } catch {
+        // A missing or unreadable file leaves only this process's transcripts to write
+      }
+      mkdirSync(path.dirname(indexFile), { recursive: true });
+      writeFileSync(tempPath, JSON.stringify(Array.from(this.transcripts.values())), 'utf8');
+      renameSync(tempPath, indexFile);
+    } catch (error) {
+      console.error('Error writing transcript index:', error);
+    }
+  }
+}
+
+function formatHitTimestamp(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`
+    : `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
@@ -1,48 +1,155 @@
 import { google, youtube_v3 } from 'googleapis';
 import dotenv from 'dotenv';
-import { getSubtitles } from 'youtube-captions-scraper';
-import NodeCache from 'node-cache';
-import { TranscriptSegment, TranscriptOptions, FormattedTranscript, TranscriptError, TimeRange, SearchOptions } from './types/youtube-types.js';
+import { TranscriptSegment, TranscriptOptions, TranscriptProvider, FormattedTranscript, TranscriptError, InvalidIdentifierError, TimeRange, SearchOptions, PlaylistDetails, PlaylistVideo, SearchVideosOptions, PagedSearchResult, CommentNode, CommentCrawlOptions, CommentCrawlResult, VideoBatchResult, ChannelUploadsOptions, ChannelUploadsResult, TranscriptSearchResult, TranscriptSection, VideoChapters, CaptionTrack, CaptionTrackList, ProviderTranscript, BilingualTranscript, YouTubeError, AccountListOptions, AccountPage, AccountSubscription, AccountPlaylist, AccountPlaylistItem, LikedVideo, NewPlaylist, PlaylistChangeResult } from './types/youtube-types.js';
+import { isSubtitleFormat, renderSubtitles } from './utils/subtitle-formats.js';
+import { PersistentCache, loadCacheConfig } from './utils/cache.js';
+import { QuotaLedger, QUOTA_COSTS, loadQuotaConfig } from './utils/quota.js';
+import { RequestExecutor, loadRequestExecutorConfig } from './utils/request-executor.js';
+import { ApiKeyPool, loadApiKeys } from './utils/api-keys.js';
+import { OAuthManager, loadOAuthConfig } from './utils/oauth.js';
+import { loadTranscriptProviders } from './providers/transcript-providers.js';
+import { extractKeyMoments } from './utils/key-moments.js';
+import { normalizeTranscript } from './utils/caption-normalizer.js';
+import { chunkTranscript, selectChunk } from './utils/transcript-chunks.js';
+import { alignTranscripts, renderAlignmentMarkdown, renderAlignmentSrt } from './utils/transcript-alignment.js';
+import { describeSections, segmentByTopic, segmentEqually } from './utils/topic-segmentation.js';
+import { ChapterParseResult, groupByChapters, parseChapters, parseIsoDuration } from './utils/chapters.js';
+import { TranscriptIndex, TranscriptSearchOptions, loadTranscriptIndexConfig } from './utils/transcript-index.js';
+import { isLanguageCode, parseChannelReference } from './utils/identifiers.js';
+import { combineTranscriptErrors, toYouTubeError } from './utils/errors.js';
 
 dotenv.config();
 
-const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
-const TRANSCRIPT_CACHE_TTL = 3600; // Cache transcripts for 1 hour
+const PLAYLIST_PAGE_SIZE = 50; // Maximum page size for playlistItems.list
+const VIDEOS_BATCH_SIZE = 50; // Maximum number of IDs per videos.list call
+const SEARCH_PAGE_SIZE = 50; // Maximum page size for search.list
+const SEARCH_MAX_PAGES = 20; // Safety cap on automatic search paging
+const UNDETERMINED_LANGUAGE = 'und'; // ISO 639-2 code providers report for tracks of unknown language
+const UPLOADS_MAX_PAGES = 200; // Safety cap on uploads playlist paging (10,000 videos)
+const PLAYLIST_MAX_PAGES = 100; // Safety cap on reading a playlist (5,000 items, YouTube's limit for a playlist)
+const COMMENTS_PAGE_SIZE = 100; // Maximum page size for commentThreads.list and comments.list
+const INGEST_CONCURRENCY = 4; // Parallel transcript fetches when ingesting videos for search
+const PLAYLIST_WRITE_MAX_PAGES = 100; // Safety cap on reading a playlist before changing it (5,000 items)
+const YOUTUBE_WRITE_ENABLED = ['1', 'true', 'yes'].includes((process.env.YOUTUBE_WRITE_ENABLED || '').trim().toLowerCase());
+
+
+/**
+ * Normalizes a language option into an ordered list: ['en', 'de'] and "en, de" both give ['en', 'de']
+ * @throws YouTubeError INVALID_ARGUMENT for a value that is not a language code
+ */
+export function parseLanguages(language: string | string[] | undefined): string[] {
+  const values = Array.isArray(language) ? language : (language || '').split(',');
+  const languages = values.map(value => value.trim()).filter(Boolean);
+
+  const invalid = languages.find(value => !isLanguageCode(value));
+  if (invalid !== undefined) {
+    throw new YouTubeError({ code: 'INVALID_ARGUMENT', message: `Invalid language code: ${invalid}` });
+  }
 
-if (!YOUTUBE_API_KEY) {
-  console.error('YOUTUBE_API_KEY is not defined in the environment variables');
-  process.exit(1);
+  return languages;
 }
 
 export class YouTubeService {
-  public youtube: youtube_v3.Youtube;
-  private transcriptCache: NodeCache;
+  public quota: QuotaLedger;
+  public apiKeys: ApiKeyPool;
+  public oauth: OAuthManager;
+  public readonly writeEnabled = YOUTUBE_WRITE_ENABLED;
+  private clients = new Map<string, youtube_v3.Youtube>(); // One API client per key
+  private userClient: youtube_v3.Youtube | null = null;
+  private executor: RequestExecutor;
+  private cache: PersistentCache;
+  private transcriptProviders: TranscriptProvider[];
+  private transcriptIndex: TranscriptIndex;
 
   constructor() {
-    this.youtube = google.youtube({
-      version: 'v3',
-      auth: YOUTUBE_API_KEY
+    this.apiKeys = new ApiKeyPool(loadApiKeys());
+    if (!this.apiKeys.size) {
+      console.error('No YouTube API key configured (YOUTUBE_API_KEY or YOUTUBE_API_KEYS); only transcript tools will work');
+    }
+    const cacheConfig = loadCacheConfig();
+    this.cache = new PersistentCache(cacheConfig);
+    this.quota = new QuotaLedger(loadQuotaConfig(cacheConfig.directory));
+    this.oauth = new OAuthManager(loadOAuthConfig(cacheConfig.directory, this.writeEnabled));
+    this.executor = new RequestExecutor(loadRequestExecutorConfig());
+    this.transcriptProviders = loadTranscriptProviders(this.executor);
+    this.transcriptIndex = new TranscriptIndex(loadTranscriptIndexConfig(cacheConfig.directory));
+  }
+
+  /**
+   * The Data API client for the key currently in use. Read it inside a request() callback,
+   * so that a retry after a key rotation picks up the next key.
+   */
+  get youtube(): youtube_v3.Youtube {
+    const key = this.apiKeys.current();
+    let client = this.clients.get(key);
+    if (!client) {
+      client = google.youtube({ version: 'v3', auth: key });
+      this.clients.set(key, client);
+    }
+    return client;
+  }
+
+  /**
+   * Calls a Data API endpoint through the request executor, charging its quota cost for every
+   * attempt (YouTube counts failed requests too). When the key in use runs out of quota or is
+   * rejected, the call is repeated at once with the next key in the pool.
+   * @param endpoint Endpoint name as listed in QUOTA_COSTS, e.g. "videos.list"
+   * @param call Makes the request with this.youtube
+   */
+  request<T>(endpoint: string, call: () => Promise<T>): Promise<T> {
+    return this.executor.run(endpoint, async () => {
+      for (;;) {
+        const key = this.apiKeys.current();
+        this.quota.charge(endpoint);
+
+        try {
+          const result = await call();
+          this.apiKeys.recordSuccess(key);
+          return result;
+        } catch (error) {
+          if (!this.apiKeys.recordFailure(key, error)) {
+            throw error;
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * The Data API client acting as the signed-in account. Read it inside a userRequest() callback.
+   */
+  get userYoutube(): youtube_v3.Youtube {
+    const auth = this.oauth.getClient();
+    if (!this.userClient) {
+      this.userClient = google.youtube({ version: 'v3', auth });
+    }
+    return this.userClient;
+  }
+
+  /**
+   * Calls a Data API endpoint as the signed-in account through the request executor. The quota
+   * is charged to the OAuth client's project rather than to an API key, but recorded all the same.
+   * @param meter Collects the units of every attempt by endpoint, for tools that report their cost
+   * @throws YouTubeError UNAUTHENTICATED when no account is signed in
+   */
+  userRequest<T>(endpoint: string, call: () => Promise<T>, meter?: Record<string, number>): Promise<T> {
+    return this.executor.run(endpoint, () => {
+      this.oauth.getClient();
+      this.quota.charge(endpoint);
+      if (meter) {
+        meter[endpoint] = (meter[endpoint] || 0) + (QUOTA_COSTS[endpoint] ?? 1);
+      }
+      return call();
     });
-    this.transcriptCache = new NodeCache({ stdTTL: TRANSCRIPT_CACHE_TTL });
   }
 
   async searchVideos(
     query: string,
     maxResults: number = 10,
-    options: {
-      channelId?: string;
-      order?: string;
-      type?: string;
-      videoDuration?: string;
-      publishedAfter?: string;
-      publishedBefore?: string;
-      videoCaption?: string;
-      videoDefinition?: string;
-      regionCode?: string;
-    } = {}
+    options: SearchVideosOptions = {}
   ): Promise<youtube_v3.Schema$SearchListResponse> {
     try {
-      const response = await this.youtube.search.list({
+      const response = await this.request('search.list', () => this.youtube.search.list({
         part: ['snippet'],
         q: query,
         maxResults,
@@ -54,8 +161,9 @@ export class YouTubeService {
         publishedBefore: options.publishedBefore,
         videoCaption: options.videoCaption,
         videoDefinition: options.videoDefinition,
-        regionCode: options.regionCode
-      });
+        regionCode: options.regionCode,
+        pageToken: options.pageToken
+      }));
       return response.data;
     } catch (error) {
       console.error('Error searching videos:', error);
@@ -63,32 +171,431 @@ export class YouTubeService {
     }
   }
 
+  /**
+   * Collects up to totalResults search results by following nextPageToken, dropping duplicates.
+   * Stops early when results run out, when the page limit is reached, or when the next page
+   * would exceed the configured daily quota budget.
+   * @param query Search term
+   * @param totalResults Number of unique results to collect
+   * @param options Search filters; pageToken resumes from an earlier cursor
+   */
+  async searchVideosPaged(
+    query: string,
+    totalResults: number,
+    options: SearchVideosOptions = {}
+  ): Promise<PagedSearchResult> {
+    try {
+      const items: youtube_v3.Schema$SearchResult[] = [];
+      const seen = new Set<string>();
+      let pageToken = options.pageToken;
+      let pagesFetched = 0;
+      let duplicatesRemoved = 0;
+      let totalAvailable: number | null | undefined;
+      let stoppedReason: PagedSearchResult['stoppedReason'] = 'exhausted';
+
+      while (items.length < totalResults) {
+        if (pagesFetched >= SEARCH_MAX_PAGES) {
+          stoppedReason = 'pageLimit';
+          break;
+        }
+
+        if (!this.quota.canAfford(QUOTA_COSTS['search.list'])) {
+          stoppedReason = 'quotaBudget';
+          break;
+        }
+
+        // Asking only for what is still needed keeps nextPageToken from skipping unreturned results
+        const pageSize = Math.min(SEARCH_PAGE_SIZE, totalResults - items.length);
+        const page = await this.searchVideos(query, pageSize, { ...options, pageToken });
+        pagesFetched++;
+        totalAvailable = page.pageInfo?.totalResults;
+
+        for (const item of page.items || []) {
+          const id = item.id?.videoId || item.id?.channelId || item.id?.playlistId || item.etag || '';
+          if (seen.has(id)) {
+            duplicatesRemoved++;
+            continue;
+          }
+          seen.add(id);
+          items.push(item);
+        }
+
+        pageToken = page.nextPageToken || undefined;
+        if (!pageToken) {
+          break;
+        }
+      }
+
+      if (items.length >= totalResults) {
+        stoppedReason = 'target';
+      }
+
+      return {
+        items,
+        nextPageToken: pageToken,
+        totalAvailable,
+        pagesFetched,
+        duplicatesRemoved,
+        stoppedReason
+      };
+    } catch (error) {
+      console.error('Error paging search results:', error);
+      throw error;
+    }
+  }
+
   async getVideoDetails(videoId: string): Promise<youtube_v3.Schema$VideoListResponse> {
     try {
-      const response = await this.youtube.videos.list({
-        part: ['snippet', 'contentDetails', 'statistics'],
-        id: [videoId]
+      return await this.cache.getOrFetch('video', videoId, async () => {
+        const response = await this.request('videos.list', () => this.youtube.videos.list({
+          part: ['snippet', 'contentDetails', 'statistics'],
+          id: [videoId]
+        }));
+        return response.data;
       });
-      return response.data;
     } catch (error) {
       console.error('Error getting video details:', error);
       throw error;
     }
   }
 
+  /**
+   * Fetches details for many videos with as few videos.list calls as possible (50 IDs per call).
+   * Cached videos are served without a request.
+   * @param videoIds Video IDs in the desired output order
+   * @returns Found videos in input order, plus the IDs that returned nothing
+   */
+  async getVideosDetails(videoIds: string[]): Promise<VideoBatchResult> {
+    try {
+      const uniqueIds = Array.from(new Set(videoIds));
+      const videosById = new Map<string, youtube_v3.Schema$Video>();
+      const uncachedIds: string[] = [];
+
+      for (const id of uniqueIds) {
+        const cached = await this.cache.lookup<youtube_v3.Schema$VideoListResponse>('video', id);
+        const video = cached?.items?.[0];
+        if (video) {
+          videosById.set(id, video);
+        } else {
+          uncachedIds.push(id);
+        }
+      }
+
+      for (let i = 0; i < uncachedIds.length; i += VIDEOS_BATCH_SIZE) {
+        const response = await this.request('videos.list', () => this.youtube.videos.list({
+          part: ['snippet', 'contentDetails', 'statistics'],
+          id: uncachedIds.slice(i, i + VIDEOS_BATCH_SIZE),
+          maxResults: VIDEOS_BATCH_SIZE
+        }));
+
+        for (const video of response.data.items || []) {
+          if (video.id) {
+            videosById.set(video.id, video);
+            // Stored in the same shape as getVideoDetails so either method can reuse it
+            await this.cache.store('video', video.id, { items: [video] });
+          }
+        }
+      }
+
+      return {
+        items: videoIds
+          .map(id => videosById.get(id))
+          .filter((video): video is youtube_v3.Schema$Video => !!video),
+        missingIds: uniqueIds.filter(id => !videosById.has(id))
+      };
+    } catch (error) {
+      console.error('Error getting video details in batch:', error);
+      throw error;
+    }
+  }
+
   async getChannelDetails(channelId: string): Promise<youtube_v3.Schema$ChannelListResponse> {
     try {
-      const response = await this.youtube.channels.list({
-        part: ['snippet', 'statistics'],
-        id: [channelId]
+      return await this.cache.getOrFetch('channel', channelId, async () => {
+        const response = await this.request('channels.list', () => this.youtube.channels.list({
+          part: ['snippet', 'statistics'],
+          id: [channelId]
+        }));
+        return response.data;
       });
-      return response.data;
     } catch (error) {
       console.error('Error getting channel details:', error);
       throw error;
     }
   }
 
+  /**
+   * Resolves a channel ID, @handle, or channel URL to a channel ID. Handles and custom
+   * URLs are looked up with channels.list (forHandle, then forUsername for legacy names).
+   * @throws InvalidIdentifierError when the input is malformed or no channel matches
+   */
+  async resolveChannelId(input: string): Promise<string> {
+    const reference = parseChannelReference(input);
+    if (reference.type === 'id') {
+      return reference.value;
+    }
+
+    const lookups: Array<'forHandle' | 'forUsername'> =
+      reference.type === 'handle' ? ['forHandle']
+        : reference.type === 'username' ? ['forUsername']
+          : ['forHandle', 'forUsername'];
+
+    const channelId = await this.cache.getOrFetch('channel', `resolve_${reference.type}_${reference.value.toLowerCase()}`, async () => {
+      for (const lookup of lookups) {
+        const response = await this.request('channels.list', () => this.youtube.channels.list({
+          part: ['id'],
+          [lookup]: reference.value
+        }));
+
+        const id = response.data.items?.[0]?.id;
+        if (id) {
+          return id;
+        }
+      }
+      return null;
+    });
+
+    if (!channelId) {
+      throw new InvalidIdentifierError({
+        kind: 'channel',
+        input,
+        message: reference.type === 'handle'
+          ? `No YouTube channel found for handle @${reference.value}`
+          : `No YouTube channel found for "${input}"`
+      });
+    }
+
+    return channelId;
+  }
+
+  async getPlaylistDetails(playlistId: string): Promise<youtube_v3.Schema$PlaylistListResponse> {
+    try {
+      const response = await this.request('playlists.list', () => this.youtube.playlists.list({
+        part: ['snippet', 'contentDetails'],
+        id: [playlistId]
+      }));
+      return response.data;
+    } catch (error) {
+      console.error('Error getting playlist details:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the items of a playlist, following nextPageToken until the end, the page cap,
+   * or the point where the quota budget could not pay for another page and its video details
+   * @param playlistId Playlist ID to read
+   * @returns The items read in playlist order, and why paging stopped
+   */
+  async getPlaylistItems(playlistId: string): Promise<{
+    items: youtube_v3.Schema$PlaylistItem[];
+    stoppedReason: PlaylistDetails['stoppedReason'];
+  }> {
+    try {
+      const items: youtube_v3.Schema$PlaylistItem[] = [];
+      let pagesFetched = 0;
+      let pageToken: string | undefined;
+      let stoppedReason: PlaylistDetails['stoppedReason'] = 'exhausted';
+
+      do {
+        if (pagesFetched >= PLAYLIST_MAX_PAGES) {
+          stoppedReason = 'pageLimit';
+          break;
+        }
+
+        // Reserve a unit for the videos.list call that covers each page
+        if (!this.quota.canAfford(QUOTA_COSTS['playlistItems.list'] + QUOTA_COSTS['videos.list'])) {
+          stoppedReason = 'quotaBudget';
+          break;
+        }
+
+        const response = await this.request('playlistItems.list', () => this.youtube.playlistItems.list({
+          part: ['snippet', 'contentDetails'],
+          playlistId,
+          maxResults: PLAYLIST_PAGE_SIZE,
+          pageToken
+        }));
+        pagesFetched++;
+
+        items.push(...(response.data.items || []));
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
+
+      items.sort((a, b) => (a.snippet?.position ?? 0) - (b.snippet?.position ?? 0));
+      return { items, stoppedReason };
+    } catch (error) {
+      console.error('Error getting playlist items:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Looks up the ID of the playlist holding every public upload of a channel
+   * @returns The uploads playlist ID, or null if the channel does not exist
+   */
+  async getUploadsPlaylistId(channelId: string): Promise<string | null> {
+    try {
+      return await this.cache.getOrFetch('channel', `uploads_${channelId}`, async () => {
+        const response = await this.request('channels.list', () => this.youtube.channels.list({
+          part: ['contentDetails'],
+          id: [channelId]
+        }));
+        return response.data.items?.[0]?.contentDetails?.relatedPlaylists?.uploads || null;
+      });
+    } catch (error) {
+      console.error('Error getting uploads playlist:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Collects a channel's uploads with full statistics by paging through its uploads playlist,
+   * which costs 1 unit per 50 videos instead of 100 units per search.list page.
+   * The playlist is ordered newest first, so paging stops once a whole page predates publishedAfter.
+   * @param channelId Channel ID (already resolved)
+   * @param options Optional publish date window
+   * @returns Matching videos, or null if the channel does not exist
+   */
+  async getChannelUploads(
+    channelId: string,
+    options: ChannelUploadsOptions = {}
+  ): Promise<ChannelUploadsResult | null> {
+    try {
+      const uploadsPlaylistId = await this.getUploadsPlaylistId(channelId);
+      if (!uploadsPlaylistId) {
+        return null;
+      }
+
+      const after = options.publishedAfter?.getTime() ?? -Infinity;
+      const before = options.publishedBefore?.getTime() ?? Infinity;
+      const videoIds: string[] = [];
+      let playlistItemsScanned = 0;
+      let pagesFetched = 0;
+      let pageToken: string | undefined;
+      let stoppedReason: ChannelUploadsResult['stoppedReason'] = 'exhausted';
+
+      do {
+        if (pagesFetched >= UPLOADS_MAX_PAGES) {
+          stoppedReason = 'pageLimit';
+          break;
+        }
+
+        // Reserve a unit for the videos.list call that follows each page
+        if (!this.quota.canAfford(QUOTA_COSTS['playlistItems.list'] + QUOTA_COSTS['videos.list'])) {
+          stoppedReason = 'quotaBudget';
+          break;
+        }
+
+        const response = await this.request('playlistItems.list', () => this.youtube.playlistItems.list({
+          part: ['contentDetails'],
+          playlistId: uploadsPlaylistId,
+          maxResults: PLAYLIST_PAGE_SIZE,
+          pageToken
+        }));
+        pagesFetched++;
+
+        const items = response.data.items || [];
+        playlistItemsScanned += items.length;
+        let newerOnPage = false;
+
+        for (const item of items) {
+          const videoId = item.contentDetails?.videoId;
+          // Private and deleted uploads have no publish date
+          const publishedAt = Date.parse(item.contentDetails?.videoPublishedAt || '');
+          if (!videoId || Number.isNaN(publishedAt)) {
+            continue;
+          }
+
+          if (publishedAt >= after) {
+            newerOnPage = true;
+          }
+          if (publishedAt >= after && publishedAt < before) {
+            videoIds.push(videoId);
+          }
+        }
+
+        pageToken = response.data.nextPageToken || undefined;
+        if (pageToken && options.publishedAfter && items.length > 0 && !newerOnPage) {
+          stoppedReason = 'dateRange';
+          break;
+        }
+      } while (pageToken);
+
+      const { items } = await this.getVideosDetails(videoIds);
+
+      return {
+        channelId,
+        uploadsPlaylistId,
+        items,
+        playlistItemsScanned,
+        pagesFetched,
+        stoppedReason
+      };
+    } catch (error) {
+      console.error('Error getting channel uploads:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Builds a playlist overview with ordered items and per-video statistics
+   * @param playlistId Playlist ID to read
+   * @returns Playlist metadata and items, or null if the playlist does not exist
+   */
+  async getPlaylist(playlistId: string): Promise<PlaylistDetails | null> {
+    try {
+      const playlistData = await this.getPlaylistDetails(playlistId);
+      const playlist = playlistData.items?.[0];
+
+      if (!playlist) {
+        return null;
+      }
+
+      const { items: playlistItems, stoppedReason } = await this.getPlaylistItems(playlistId);
+      const videoIds = playlistItems
+        .map(item => item.contentDetails?.videoId)
+        .filter((id): id is string => !!id);
+
+      const { items: videos } = await this.getVideosDetails(videoIds);
+      const videosById = new Map(videos.map(video => [video.id, video]));
+
+      const items: PlaylistVideo[] = playlistItems.map((item, index) => {
+        const videoId = item.contentDetails?.videoId || '';
+        const video = videosById.get(videoId);
+
+        return {
+          position: item.snippet?.position ?? index,
+          videoId,
+          title: video?.snippet?.title ?? item.snippet?.title,
+          channelTitle: video?.snippet?.channelTitle ?? item.snippet?.videoOwnerChannelTitle,
+          publishedAt: video?.snippet?.publishedAt ?? item.contentDetails?.videoPublishedAt,
+          addedAt: item.snippet?.publishedAt,
+          duration: video?.contentDetails?.duration,
+          viewCount: video?.statistics?.viewCount,
+          likeCount: video?.statistics?.likeCount,
+          commentCount: video?.statistics?.commentCount,
+          available: !!video
+        };
+      });
+
+      return {
+        id: playlist.id || playlistId,
+        title: playlist.snippet?.title,
+        description: playlist.snippet?.description,
+        channelId: playlist.snippet?.channelId,
+        channelTitle: playlist.snippet?.channelTitle,
+        publishedAt: playlist.snippet?.publishedAt,
+        itemCount: items.length,
+        totalItemCount: playlist.contentDetails?.itemCount,
+        stoppedReason,
+        items
+      };
+    } catch (error) {
+      console.error('Error getting playlist:', error);
+      throw error;
+    }
+  }
+
   async getComments(
     videoId: string,
     maxResults: number = 20,
@@ -101,24 +608,648 @@ export class YouTubeService {
     try {
       const { order = 'relevance', pageToken, includeReplies = false } = options;
 
-      const response = await this.youtube.commentThreads.list({
-        part: includeReplies ? ['snippet', 'replies'] : ['snippet'],
-        videoId,
-        maxResults,
-        order,
+      const cacheKey = JSON.stringify({ videoId, maxResults, order, pageToken, includeReplies });
+
+      return await this.cache.getOrFetch('comments', cacheKey, async () => {
+        const response = await this.request('commentThreads.list', () => this.youtube.commentThreads.list({
+          part: includeReplies ? ['snippet', 'replies'] : ['snippet'],
+          videoId,
+          maxResults,
+          order,
+          pageToken
+        }));
+        return response.data;
+      });
+    } catch (error) {
+      console.error('Error getting comments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Walks every comment thread page of a video and, for threads with more replies than
+   * commentThreads.list inlines, pages through comments.list to fetch all of them
+   * @param videoId Video ID to crawl
+   * @param options Cap, ordering, reply handling and output layout
+   * @returns Comments as a nested tree or a flat list, in thread order
+   */
+  async crawlComments(
+    videoId: string,
+    options: CommentCrawlOptions = {}
+  ): Promise<CommentCrawlResult> {
+    const { maxComments = 500, order = 'relevance', includeReplies = true, layout = 'nested' } = options;
+
+    try {
+      const cacheKey = JSON.stringify({ videoId, maxComments, order, includeReplies, layout });
+
+      return await this.cache.getOrFetch('comments', `crawl_${cacheKey}`, async () => {
+        const threads: CommentNode[] = [];
+        let commentsFetched = 0;
+        let stoppedReason: CommentCrawlResult['stoppedReason'] = 'complete';
+        let pageToken: string | undefined;
+        // Running out of budget outranks reaching the limit, so a truncated crawl is never taken for a full one
+        const stop = (reason: CommentCrawlResult['stoppedReason']) => {
+          if (stoppedReason !== 'quotaBudget') {
+            stoppedReason = reason;
+          }
+        };
+
+        crawl: do {
+          if (!this.quota.canAfford(QUOTA_COSTS['commentThreads.list'])) {
+            stoppedReason = 'quotaBudget';
+            break;
+          }
+
+          const response = await this.request('commentThreads.list', () => this.youtube.commentThreads.list({
+            part: includeReplies ? ['snippet', 'replies'] : ['snippet'],
+            videoId,
+            maxResults: Math.min(COMMENTS_PAGE_SIZE, maxComments - commentsFetched),
+            order,
+            pageToken
+          }));
+
+          for (const thread of response.data.items || []) {
+            if (commentsFetched >= maxComments) {
+              stop('maxComments');
+              break crawl;
+            }
+
+            const topLevel = this.toCommentNode(thread.snippet?.topLevelComment);
+            topLevel.totalReplyCount = thread.snippet?.totalReplyCount ?? 0;
+            commentsFetched++;
+
+            if (includeReplies && topLevel.totalReplyCount > 0) {
+              const inlined = (thread.replies?.comments || []).map(reply => this.toCommentNode(reply));
+              let replies = inlined;
+
+              if (topLevel.totalReplyCount > inlined.length) {
+                const fetched = await this.fetchAllReplies(topLevel.id, maxComments - commentsFetched);
+                replies = fetched.replies;
+                if (fetched.stoppedReason === 'quotaBudget') {
+                  stoppedReason = 'quotaBudget';
+                }
+              }
+
+              if (replies.length > maxComments - commentsFetched) {
+                replies = replies.slice(0, maxComments - commentsFetched);
+                stop('maxComments');
+              }
+              commentsFetched += replies.length;
+              topLevel.replies = replies;
+            }
+
+            threads.push(topLevel);
+          }
+
+          pageToken = response.data.nextPageToken || undefined;
+          if (pageToken && commentsFetched >= maxComments) {
+            stop('maxComments');
+            break;
+          }
+        } while (pageToken && stoppedReason !== 'quotaBudget');
+
+        const comments = layout === 'flat'
+          ? threads.flatMap(({ replies = [], ...comment }) => [comment, ...replies])
+          : threads;
+
+        return {
+          videoId,
+          layout,
+          threadsFetched: threads.length,
+          commentsFetched,
+          stoppedReason,
+          comments
+        };
+      }, result => result.stoppedReason !== 'quotaBudget'); // A crawl cut short by the budget is redone once quota is available
+    } catch (error) {
+      console.error('Error crawling comments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pages through comments.list for every reply to a top-level comment, oldest first
+   */
+  private async fetchAllReplies(
+    parentId: string,
+    limit: number
+  ): Promise<{ replies: CommentNode[]; stoppedReason: 'complete' | 'quotaBudget' }> {
+    const replies: CommentNode[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      if (!this.quota.canAfford(QUOTA_COSTS['comments.list'])) {
+        return { replies, stoppedReason: 'quotaBudget' };
+      }
+
+      const response = await this.request('comments.list', () => this.youtube.comments.list({
+        part: ['snippet'],
+        parentId,
+        maxResults: COMMENTS_PAGE_SIZE,
         pageToken
+      }));
+
+      replies.push(...(response.data.items || []).map(reply => this.toCommentNode(reply)));
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken && replies.length < limit);
+
+    return { replies, stoppedReason: 'complete' };
+  }
+
+  private toCommentNode(comment: youtube_v3.Schema$Comment | undefined): CommentNode {
+    const snippet = comment?.snippet;
+
+    return {
+      id: comment?.id || '',
+      parentId: snippet?.parentId || undefined,
+      author: snippet?.authorDisplayName,
+      authorChannelId: snippet?.authorChannelId?.value,
+      text: snippet?.textOriginal ?? snippet?.textDisplay,
+      likeCount: snippet?.likeCount ?? 0,
+      publishedAt: snippet?.publishedAt,
+      updatedAt: snippet?.updatedAt
+    };
+  }
+
+  /**
+   * Lists the channels the signed-in account subscribes to
+   * @param options Paging, and the order: "alphabetical" (default), "relevance" or "unread"
+   */
+  async getMySubscriptions(
+    options: AccountListOptions & { order?: 'alphabetical' | 'relevance' | 'unread' } = {}
+  ): Promise<AccountPage<AccountSubscription>> {
+    try {
+      const response = await this.userRequest('subscriptions.list', () => this.userYoutube.subscriptions.list({
+        part: ['snippet', 'contentDetails'],
+        mine: true,
+        order: options.order || 'alphabetical',
+        maxResults: options.maxResults,
+        pageToken: options.pageToken
+      }));
+
+      return {
+        items: (response.data.items || []).map(subscription => ({
+          channelId: subscription.snippet?.resourceId?.channelId,
+          title: subscription.snippet?.title,
+          description: subscription.snippet?.description,
+          subscribedAt: subscription.snippet?.publishedAt,
+          thumbnailUrl: subscription.snippet?.thumbnails?.default?.url,
+          totalItemCount: subscription.contentDetails?.totalItemCount,
+          newItemCount: subscription.contentDetails?.newItemCount
+        })),
+        nextPageToken: response.data.nextPageToken || null,
+        totalResults: response.data.pageInfo?.totalResults ?? null
+      };
+    } catch (error) {
+      console.error('Error getting subscriptions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the signed-in account's playlists, including unlisted and private ones
+   */
+  async getMyPlaylists(options: AccountListOptions = {}): Promise<AccountPage<AccountPlaylist>> {
+    try {
+      const response = await this.userRequest('playlists.list', () => this.userYoutube.playlists.list({
+        part: ['snippet', 'contentDetails', 'status'],
+        mine: true,
+        maxResults: options.maxResults,
+        pageToken: options.pageToken
+      }));
+
+      return {
+        items: (response.data.items || []).map(playlist => this.toAccountPlaylist(playlist)),
+        nextPageToken: response.data.nextPageToken || null,
+        totalResults: response.data.pageInfo?.totalResults ?? null
+      };
+    } catch (error) {
+      console.error('Error getting own playlists:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reads one page of a playlist as the signed-in account, so private playlists and the
+   * private or unlisted videos in them are visible
+   * @returns The page, or null if the account cannot see the playlist
+   */
+  async getMyPlaylistItems(playlistId: string, options: AccountListOptions = {}): Promise<AccountPage<AccountPlaylistItem> | null> {
+    try {
+      const response = await this.userRequest('playlistItems.list', () => this.userYoutube.playlistItems.list({
+        part: ['snippet', 'contentDetails', 'status'],
+        playlistId,
+        maxResults: options.maxResults,
+        pageToken: options.pageToken
+      }));
+
+      return {
+        items: (response.data.items || []).map(item => this.toAccountPlaylistItem(item)),
+        nextPageToken: response.data.nextPageToken || null,
+        totalResults: response.data.pageInfo?.totalResults ?? null
+      };
+    } catch (error) {
+      if (toYouTubeError(error).code === 'PLAYLIST_NOT_FOUND') {
+        return null;
+      }
+      console.error('Error getting own playlist items:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the videos the signed-in account liked, most recent first
+   */
+  async getLikedVideos(options: AccountListOptions = {}): Promise<AccountPage<LikedVideo>> {
+    try {
+      const response = await this.userRequest('videos.list', () => this.userYoutube.videos.list({
+        part: ['snippet', 'contentDetails', 'statistics'],
+        myRating: 'like',
+        maxResults: options.maxResults,
+        pageToken: options.pageToken
+      }));
+
+      return {
+        items: (response.data.items || []).map(video => ({
+          videoId: video.id,
+          title: video.snippet?.title,
+          channelTitle: video.snippet?.channelTitle,
+          publishedAt: video.snippet?.publishedAt,
+          duration: video.contentDetails?.duration,
+          viewCount: video.statistics?.viewCount,
+          likeCount: video.statistics?.likeCount
+        })),
+        nextPageToken: response.data.nextPageToken || null,
+        totalResults: response.data.pageInfo?.totalResults ?? null
+      };
+    } catch (error) {
+      console.error('Error getting liked videos:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a playlist owned by the signed-in account, or in a dry run describes it
+   * @param details Title, description, and privacy status (private unless set)
+   */
+  async createPlaylist(details: NewPlaylist, dryRun: boolean): Promise<PlaylistChangeResult> {
+    try {
+      const meter: Record<string, number> = {};
+      const writeCost = QUOTA_COSTS['playlists.insert'];
+      const privacyStatus = details.privacyStatus || 'private';
+
+      if (dryRun) {
+        return this.playlistChange(meter, writeCost, {
+          dryRun,
+          summary: `Would create the ${privacyStatus} playlist "${details.title}"`,
+          playlist: { title: details.title, description: details.description, privacyStatus },
+          items: [],
+          skipped: []
+        });
+      }
+
+      this.assertWritable();
+      const response = await this.userRequest('playlists.insert', () => this.userYoutube.playlists.insert({
+        part: ['snippet', 'status'],
+        requestBody: {
+          snippet: { title: details.title, description: details.description },
+          status: { privacyStatus }
+        }
+      }), meter);
+
+      return this.playlistChange(meter, writeCost, {
+        dryRun,
+        summary: `Created the ${privacyStatus} playlist "${details.title}" (${response.data.id})`,
+        playlist: this.toAccountPlaylist(response.data),
+        playlistId: response.data.id,
+        items: [],
+        skipped: []
       });
+    } catch (error) {
+      console.error('Error creating playlist:', error);
+      throw error;
+    }
+  }
 
-      return response.data;
+  /**
+   * Appends videos to a playlist of the signed-in account, or inserts them from a position.
+   * Videos already in the playlist, listed twice, or not found are skipped.
+   * @param position Zero-based position of the first added video; the end of the playlist when unset
+   */
+  async addToPlaylist(playlistId: string, videoIds: string[], position: number | undefined, dryRun: boolean): Promise<PlaylistChangeResult> {
+    try {
+      const meter: Record<string, number> = {};
+      const existing = await this.listAllMyPlaylistItems(playlistId, meter);
+      const present = new Set(existing.map(item => item.videoId));
+      const skipped: PlaylistChangeResult['skipped'] = [];
+      const wanted: string[] = [];
+
+      for (const videoId of videoIds) {
+        if (present.has(videoId)) {
+          skipped.push({ videoId, reason: 'Already in the playlist' });
+        } else if (wanted.includes(videoId)) {
+          skipped.push({ videoId, reason: 'Listed more than once' });
+        } else {
+          wanted.push(videoId);
+        }
+      }
+
+      // Looked up as the account, so its own unlisted and private videos are found too
+      const videos = new Map<string, youtube_v3.Schema$Video>();
+      for (let i = 0; i < wanted.length; i += VIDEOS_BATCH_SIZE) {
+        const response = await this.userRequest('videos.list', () => this.userYoutube.videos.list({
+          part: ['snippet'],
+          id: wanted.slice(i, i + VIDEOS_BATCH_SIZE),
+          maxResults: VIDEOS_BATCH_SIZE
+        }), meter);
+        for (const video of response.data.items || []) {
+          if (video.id) {
+            videos.set(video.id, video);
+          }
+        }
+      }
+
+      const toAdd = wanted.filter(videoId => {
+        if (!videos.has(videoId)) {
+          skipped.push({ videoId, reason: 'Video not found or not accessible' });
+        }
+        return videos.has(videoId);
+      });
+      const writeCost = toAdd.length * QUOTA_COSTS['playlistItems.insert'];
+
+      if (dryRun) {
+        return this.playlistChange(meter, writeCost, {
+          dryRun,
+          summary: `Would add ${toAdd.length} video${toAdd.length === 1 ? '' : 's'} to playlist ${playlistId}` +
+            (position === undefined ? ' at the end' : ` from position ${position}`),
+          playlistId,
+          items: toAdd.map((videoId, index) => ({
+            videoId,
+            title: videos.get(videoId)?.snippet?.title,
+            channelTitle: videos.get(videoId)?.snippet?.channelTitle,
+            position: (position ?? existing.length) + index
+          })),
+          skipped
+        });
+      }
+
+      this.assertWritable();
+      const added: AccountPlaylistItem[] = [];
+      for (const [index, videoId] of toAdd.entries()) {
+        try {
+          const response = await this.userRequest('playlistItems.insert', () => this.userYoutube.playlistItems.insert({
+            part: ['snippet', 'contentDetails', 'status'],
+            requestBody: {
+              snippet: {
+                playlistId,
+                resourceId: { kind: 'youtube#video', videoId },
+                position: position === undefined ? undefined : position + index
+              }
+            }
+          }), meter);
+          added.push(this.toAccountPlaylistItem(response.data));
+        } catch (error) {
+          throw this.partialWriteError(error, added.length, `${added.length} of ${toAdd.length} videos were added before the failure`);
+        }
+      }
+
+      return this.playlistChange(meter, writeCost, {
+        dryRun,
+        summary: `Added ${added.length} video${added.length === 1 ? '' : 's'} to playlist ${playlistId}`,
+        playlistId,
+        items: added,
+        skipped
+      });
     } catch (error) {
-      console.error('Error getting comments:', error);
+      console.error('Error adding to playlist:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Removes items from a playlist of the signed-in account: every occurrence of the given videos,
+   * and the given playlist items
+   */
+  async removeFromPlaylist(
+    playlistId: string,
+    target: { videoIds?: string[]; playlistItemIds?: string[] },
+    dryRun: boolean
+  ): Promise<PlaylistChangeResult> {
+    try {
+      const meter: Record<string, number> = {};
+      const existing = await this.listAllMyPlaylistItems(playlistId, meter);
+      const videoIds = new Set(target.videoIds || []);
+      const itemIds = new Set(target.playlistItemIds || []);
+
+      const toRemove = existing.filter(item =>
+        (item.videoId && videoIds.has(item.videoId)) || (item.playlistItemId && itemIds.has(item.playlistItemId))
+      );
+      const skipped = [
+        ...Array.from(videoIds).filter(id => !toRemove.some(item => item.videoId === id)),
+        ...Array.from(itemIds).filter(id => !toRemove.some(item => item.playlistItemId === id))
+      ].map(videoId => ({ videoId, reason: 'Not in the playlist' }));
+      const writeCost = toRemove.length * QUOTA_COSTS['playlistItems.delete'];
+
+      if (dryRun) {
+        return this.playlistChange(meter, writeCost, {
+          dryRun,
+          summary: `Would remove ${toRemove.length} item${toRemove.length === 1 ? '' : 's'} from playlist ${playlistId}`,
+          playlistId,
+          items: toRemove,
+          skipped
+        });
+      }
+
+      this.assertWritable();
+      const removed: AccountPlaylistItem[] = [];
+      for (const item of toRemove) {
+        try {
+          await this.userRequest('playlistItems.delete', () => this.userYoutube.playlistItems.delete({
+            id: item.playlistItemId!
+          }), meter);
+          removed.push(item);
+        } catch (error) {
+          throw this.partialWriteError(error, removed.length, `${removed.length} of ${toRemove.length} items were removed before the failure`);
+        }
+      }
+
+      return this.playlistChange(meter, writeCost, {
+        dryRun,
+        summary: `Removed ${removed.length} item${removed.length === 1 ? '' : 's'} from playlist ${playlistId}`,
+        playlistId,
+        items: removed,
+        skipped
+      });
+    } catch (error) {
+      console.error('Error removing from playlist:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Moves one item of a manually sorted playlist to a new position
+   * @param target The playlist item, or the first occurrence of a video
+   * @param position Zero-based target position
+   */
+  async reorderPlaylistItem(
+    playlistId: string,
+    target: { videoId?: string; playlistItemId?: string },
+    position: number,
+    dryRun: boolean
+  ): Promise<PlaylistChangeResult> {
+    try {
+      const meter: Record<string, number> = {};
+      const existing = await this.listAllMyPlaylistItems(playlistId, meter);
+      const item = existing.find(candidate =>
+        target.playlistItemId ? candidate.playlistItemId === target.playlistItemId : candidate.videoId === target.videoId
+      );
+
+      if (!item) {
+        throw new YouTubeError({
+          code: 'NOT_FOUND',
+          message: `${target.playlistItemId ? `Playlist item ${target.playlistItemId}` : `Video ${target.videoId}`} is not in playlist ${playlistId}`
+        });
+      }
+      if (position >= existing.length) {
+        throw new YouTubeError({
+          code: 'INVALID_ARGUMENT',
+          message: `Position ${position} is past the end of the playlist, which has ${existing.length} item${existing.length === 1 ? '' : 's'} (positions start at 0)`
+        });
+      }
+
+      const writeCost = QUOTA_COSTS['playlistItems.update'];
+      const move = `"${item.title}" from position ${item.position} to ${position} in playlist ${playlistId}`;
+
+      if (dryRun) {
+        return this.playlistChange(meter, writeCost, {
+          dryRun,
+          summary: `Would move ${move}`,
+          playlistId,
+          items: [{ ...item, position }],
+          skipped: []
+        });
+      }
+
+      this.assertWritable();
+      const response = await this.userRequest('playlistItems.update', () => this.userYoutube.playlistItems.update({
+        part: ['snippet'],
+        requestBody: {
+          id: item.playlistItemId,
+          snippet: {
+            playlistId,
+            resourceId: { kind: 'youtube#video', videoId: item.videoId },
+            position
+          }
+        }
+      }), meter);
+
+      return this.playlistChange(meter, writeCost, {
+        dryRun,
+        summary: `Moved ${move}`,
+        playlistId,
+        items: [{ ...item, position: response.data.snippet?.position ?? position }],
+        skipped: []
+      });
+    } catch (error) {
+      console.error('Error reordering playlist item:', error);
       throw error;
     }
   }
 
+  /**
+   * Reads every item of a playlist as the signed-in account, as the basis of a change
+   */
+  private async listAllMyPlaylistItems(playlistId: string, meter: Record<string, number>): Promise<AccountPlaylistItem[]> {
+    const items: AccountPlaylistItem[] = [];
+    let pageToken: string | undefined;
+
+    for (let page = 0; page < PLAYLIST_WRITE_MAX_PAGES; page++) {
+      const response = await this.userRequest('playlistItems.list', () => this.userYoutube.playlistItems.list({
+        part: ['snippet', 'contentDetails', 'status'],
+        playlistId,
+        maxResults: PLAYLIST_PAGE_SIZE,
+        pageToken
+      }), meter);
+
+      items.push(...(response.data.items || []).map(item => this.toAccountPlaylistItem(item)));
+      pageToken = response.data.nextPageToken || undefined;
+      if (!pageToken) {
+        break;
+      }
+    }
+
+    return items;
+  }
+
+  private assertWritable(): void {
+    if (!this.writeEnabled) {
+      throw new YouTubeError({
+        code: 'WRITE_DISABLED',
+        message: 'Playlist changes are disabled on this server; only dry runs are allowed'
+      });
+    }
+    if (!this.oauth.hasWriteAccess) {
+      throw new YouTubeError({
+        code: 'FORBIDDEN',
+        message: 'The signed-in account only granted read access. Run authorize-youtube again to grant write access'
+      });
+    }
+  }
+
+  /**
+   * Keeps the code of a failure in the middle of a series of writes, saying how far it got
+   */
+  private partialWriteError(error: unknown, completed: number, progress: string): unknown {
+    if (!completed) {
+      return error;
+    }
+    const cause = toYouTubeError(error);
+    return new YouTubeError({ code: cause.code, message: `${progress}: ${cause.message}`, status: cause.status, reason: cause.reason, originalError: error });
+  }
+
+  private playlistChange(
+    meter: Record<string, number>,
+    writeCost: number,
+    change: Omit<PlaylistChangeResult, 'quota'>
+  ): PlaylistChangeResult {
+    const note = change.dryRun && !this.writeEnabled ? ' (writes are disabled on this server: set YOUTUBE_WRITE_ENABLED=true to apply it)' : '';
+    return {
+      ...change,
+      summary: `${change.summary}${note}`,
+      quota: {
+        used: Object.values(meter).reduce((sum, units) => sum + units, 0),
+        usedByEndpoint: meter,
+        writeCost
+      }
+    };
+  }
+
+  private toAccountPlaylist(playlist: youtube_v3.Schema$Playlist): AccountPlaylist {
+    return {
+      id: playlist.id,
+      title: playlist.snippet?.title,
+      description: playlist.snippet?.description,
+      privacyStatus: playlist.status?.privacyStatus,
+      itemCount: playlist.contentDetails?.itemCount,
+      publishedAt: playlist.snippet?.publishedAt
+    };
+  }
+
+  private toAccountPlaylistItem(item: youtube_v3.Schema$PlaylistItem): AccountPlaylistItem {
+    return {
+      playlistItemId: item.id,
+      position: item.snippet?.position,
+      videoId: item.contentDetails?.videoId || item.snippet?.resourceId?.videoId,
+      title: item.snippet?.title,
+      channelTitle: item.snippet?.videoOwnerChannelTitle,
+      addedAt: item.snippet?.publishedAt,
+      privacyStatus: item.status?.privacyStatus
+    };
+  }
+
   async getTranscript(
     videoId: string,
-    language?: string
+    language?: string | string[]
   ): Promise<TranscriptSegment[]>;
 
   async getTranscript(
@@ -128,31 +1259,40 @@ export class YouTubeService {
 
   async getTranscript(
     videoId: string,
-    langOrOptions?: string | TranscriptOptions
+    langOrOptions?: string | string[] | TranscriptOptions
   ): Promise<TranscriptSegment[]> {
+    return (await this.getTranscriptWithTrack(videoId, langOrOptions)).segments;
+  }
+
+  /**
+   * Fetches a transcript together with the caption track it was read from. The language may be
+   * an ordered fallback list (or a comma-separated string); the first language any provider has
+   * wins.
+   */
+  async getTranscriptWithTrack(
+    videoId: string,
+    langOrOptions?: string | string[] | TranscriptOptions
+  ): Promise<ProviderTranscript> {
     // Normalize options to support both legacy language string and new options object
-    const options: TranscriptOptions = typeof langOrOptions === 'string'
+    const options: TranscriptOptions = typeof langOrOptions === 'string' || Array.isArray(langOrOptions)
       ? { language: langOrOptions }
       : langOrOptions || {};
 
     const cacheKey = this.generateTranscriptCacheKey(videoId, options);
-    const cachedTranscript = this.transcriptCache.get<TranscriptSegment[]>(cacheKey);
-
-    if (cachedTranscript) {
-      return this.processTranscript(cachedTranscript, options);
-    }
 
     try {
-      const scraperOptions: { videoID: string; lang?: string } = { videoID: videoId };
-
-      if (options.language) {
-        scraperOptions.lang = options.language;
-      }
+      // Concurrent calls for the same video and language share one provider lookup
+      const transcript = await this.cache.getOrFetch('transcript', cacheKey, () =>
+        this.fetchFromProviders(videoId, parseLanguages(options.language))
+      );
 
-      const captions = await getSubtitles(scraperOptions);
-      this.transcriptCache.set(cacheKey, captions);
+      // Every fetched transcript becomes searchable through search-transcripts
+      this.transcriptIndex.add(videoId, transcript.segments, transcript.track.languageCode);
 
-      return this.processTranscript(captions, options);
+      return {
+        segments: this.processTranscript(transcript.segments, options),
+        track: transcript.track
+      };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error(`Error getting video transcript for ${videoId}:`, error);
@@ -166,18 +1306,117 @@ export class YouTubeService {
     }
   }
 
+  /**
+   * Lists the caption tracks every configured provider can offer for a video
+   * @param videoId Video ID to inspect
+   */
+  async listCaptionTracks(videoId: string): Promise<CaptionTrackList> {
+    const result: CaptionTrackList = { videoId, tracks: [], errors: [] };
+
+    for (const provider of this.transcriptProviders) {
+      if (!provider.listTracks) {
+        continue;
+      }
+
+      try {
+        result.tracks.push(...await provider.listTracks(videoId));
+      } catch (error) {
+        const classified = toYouTubeError(error);
+        result.errors.push({ provider: provider.name, error: classified.message, code: classified.code });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Searches every indexed transcript with BM25 ranking and "quoted phrase" support.
+   * Requested videos that are not indexed yet are fetched and indexed first, and the
+   * search is then limited to them.
+   * @param query Search terms and quoted phrases
+   * @param options Videos to ingest and search, transcript language, and hit limits
+   */
+  async searchTranscripts(
+    query: string,
+    options: TranscriptSearchOptions & { language?: string | string[] } = {}
+  ): Promise<TranscriptSearchResult> {
+    const ingested: string[] = [];
+    const failed: TranscriptSearchResult['failed'] = [];
+    const languages = parseLanguages(options.language);
+    const pending = (options.videoIds || []).filter(id => !this.transcriptIndex.has(id, languages));
+
+    const worker = async () => {
+      for (let videoId = pending.shift(); videoId; videoId = pending.shift()) {
+        try {
+          await this.getTranscript(videoId, options.language);
+          ingested.push(videoId);
+        } catch (error) {
+          failed.push({ videoId, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: INGEST_CONCURRENCY }, worker));
+
+    return {
+      query,
+      indexedVideos: this.transcriptIndex.size,
+      ingested,
+      failed,
+      hits: this.transcriptIndex.search(query, options)
+    };
+  }
+
+  /**
+   * Tries each language in order, and for each language every configured provider in order,
+   * returning the first non-empty result
+   * @param languages Preferred languages; empty for each provider's default track
+   */
+  private async fetchFromProviders(videoId: string, languages: string[]): Promise<ProviderTranscript> {
+    const failures: Array<{ label: string; error: unknown }> = [];
+    const attempts: Array<string | undefined> = languages.length ? languages : [undefined];
+    // A track of unknown language (such as a local file without a language suffix) only
+    // wins when no requested language is found, so it cannot cut a fallback list short
+    let undetermined: ProviderTranscript | null = null;
+
+    for (const language of attempts) {
+      for (const provider of this.transcriptProviders) {
+        const label = language ? `${provider.name} (${language})` : provider.name;
+        try {
+          const transcript = await provider.fetchTranscript(videoId, language);
+          if (!transcript.segments.length) {
+            failures.push({ label, error: new YouTubeError({ code: 'TRANSCRIPT_NOT_FOUND', message: 'no captions returned' }) });
+          } else if (language && transcript.track.languageCode === UNDETERMINED_LANGUAGE) {
+            undetermined = undetermined || transcript;
+          } else {
+            return transcript;
+          }
+        } catch (error) {
+          failures.push({ label, error });
+        }
+      }
+    }
+
+    if (undetermined) {
+      return undetermined;
+    }
+
+    throw combineTranscriptErrors(failures);
+  }
+
   async getEnhancedTranscript(
     videoId: string | string[],
     options: TranscriptOptions = {}
   ): Promise<FormattedTranscript> {
     try {
       const videoIds = Array.isArray(videoId) ? videoId : [videoId];
-      const transcriptPromises = videoIds.map(id => this.getTranscript(id, options));
+      // Processing happens once on the combined transcript below
+      const transcriptPromises = videoIds.map(id => this.getTranscriptWithTrack(id, { language: options.language }));
       const transcripts = await Promise.all(transcriptPromises);
+      const tracks = transcripts.map((transcript, index) => ({ videoId: videoIds[index], ...transcript.track }));
 
       // Combine transcripts if multiple videos
       let combinedSegments: TranscriptSegment[] = [];
-      transcripts.forEach((segments, index) => {
+      transcripts.forEach(({ segments }, index) => {
         // Add video identifier to each segment if multiple videos
         if (videoIds.length > 1) {
           segments = segments.map(segment => ({
@@ -188,20 +1427,118 @@ export class YouTubeService {
         combinedSegments = [...combinedSegments, ...segments];
       });
 
-      const videoDetailsPromises = videoIds.map(id => this.getVideoDetails(id));
-      const videoDetails = await Promise.all(videoDetailsPromises);
+      // Metadata is optional, so a failed lookup must not fail the transcript (e.g. local files offline)
+      const videoDetails = await this.getVideosDetails(videoIds)
+        .then(result => result.items)
+        .catch(() => []);
 
       // Process and format the transcript
       const processedTranscript = this.processTranscript(combinedSegments, options);
 
+      if (options.chunk) {
+        const { segments: chunkSegments, ...chunk } = selectChunk(chunkTranscript(processedTranscript, options.chunk), options.chunk.number);
+        return { ...this.formatTranscript(chunkSegments, videoDetails, options, tracks), chunk };
+      }
+
       // Format the final output
-      return this.formatTranscript(processedTranscript, videoDetails, options);
+      return this.formatTranscript(processedTranscript, videoDetails, options, tracks);
     } catch (error) {
       console.error('Error getting enhanced transcript:', error);
       throw error;
     }
   }
 
+  /**
+   * Fetches two language tracks of a video and pairs their cues by time overlap, e.g. an
+   * original and its translation
+   * @param videoId Video ID to read
+   * @param languageA First language, or ordered fallback list
+   * @param languageB Second language, or ordered fallback list
+   * @param options normalize is applied to both tracks; format adds a markdown table or dual-language SRT as text
+   */
+  async getBilingualTranscript(
+    videoId: string,
+    languageA: string | string[],
+    languageB: string | string[],
+    options: { normalize?: TranscriptOptions['normalize']; format?: 'json' | 'markdown' | 'srt' } = {}
+  ): Promise<BilingualTranscript> {
+    try {
+      const [first, second] = await Promise.all([
+        this.getTranscriptWithTrack(videoId, { language: languageA, normalize: options.normalize }),
+        this.getTranscriptWithTrack(videoId, { language: languageB, normalize: options.normalize })
+      ]);
+
+      // Fallback lists can end on the same track, which would align a language with itself
+      if (first.track.languageCode === second.track.languageCode && first.track.provider === second.track.provider) {
+        throw new YouTubeError({
+          code: 'LANGUAGE_NOT_AVAILABLE',
+          message: `Both languages resolved to the same ${first.track.languageCode} caption track; use list-caption-tracks to see the available languages`
+        });
+      }
+
+      const rows = alignTranscripts(first.segments, second.segments);
+      const result: BilingualTranscript = {
+        videoId,
+        tracks: [first.track, second.track],
+        rows,
+        unmatchedA: rows.filter(row => !row.textB).length,
+        unmatchedB: rows.filter(row => !row.textA).length
+      };
+
+      if (options.format === 'markdown') {
+        result.text = renderAlignmentMarkdown(rows, first.track.languageCode, second.track.languageCode);
+      } else if (options.format === 'srt') {
+        result.text = renderAlignmentSrt(rows);
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Error aligning transcripts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reads the chapter list a video declares in its description
+   * @param videoId Video ID to read
+   * @returns The chapters (empty with a reason when the timestamps are invalid), or null if the video does not exist
+   */
+  async getVideoChapters(videoId: string): Promise<VideoChapters | null> {
+    try {
+      const video = (await this.getVideoDetails(videoId)).items?.[0];
+      if (!video) {
+        return null;
+      }
+
+      return {
+        videoId,
+        title: video.snippet?.title,
+        duration: parseIsoDuration(video.contentDetails?.duration),
+        ...this.parseVideoChapters(video)
+      };
+    } catch (error) {
+      console.error('Error getting video chapters:', error);
+      throw error;
+    }
+  }
+
+  private parseVideoChapters(video: youtube_v3.Schema$Video | undefined): ChapterParseResult {
+    return parseChapters(video?.snippet?.description, parseIsoDuration(video?.contentDetails?.duration));
+  }
+
+  /**
+   * Looks up video metadata for the transcript tools without letting a failure abort them,
+   * so transcripts keep working offline (local files) and without an API key
+   * @returns The lookup result, or null when it failed
+   */
+  async tryGetVideoDetails(videoId: string): Promise<youtube_v3.Schema$VideoListResponse | null> {
+    try {
+      return await this.getVideoDetails(videoId);
+    } catch {
+      return null;
+    }
+  }
+
   private processTranscript(
     segments: TranscriptSegment[],
     options: TranscriptOptions
@@ -212,6 +1549,11 @@ export class YouTubeService {
 
     let processedSegments = [...segments];
 
+    // Normalize first, so filters and searches see whole sentences
+    if (options.normalize) {
+      processedSegments = normalizeTranscript(processedSegments, options.normalize);
+    }
+
     // Filter by time range if specified
     if (options.timeRange) {
       processedSegments = this.filterByTimeRange(processedSegments, options.timeRange);
@@ -222,11 +1564,6 @@ export class YouTubeService {
       processedSegments = this.filterBySearchText(processedSegments, options.search);
     }
 
-    // Apply segment splitting if specified
-    if (options.segment) {
-      processedSegments = this.segmentTranscript(processedSegments, options.segment);
-    }
-
     return processedSegments;
   }
 
@@ -297,60 +1634,62 @@ export class YouTubeService {
       .map(index => segments[index]);
   }
 
+  /**
+   * Finds section boundaries: equal caption counts, topic shifts ('smart') detected with
+   * TextTiling, or the chapters declared in the video description ('chapters', falling back to
+   * topic shifts when there are none). Each video of a combined transcript is segmented on
+   * its own, because offsets restart at zero for every video.
+   */
   private segmentTranscript(
     segments: TranscriptSegment[],
-    segmentOptions: { method: 'equal' | 'smart', count: number }
-  ): TranscriptSegment[] {
-    const { method = 'equal', count = 1 } = segmentOptions;
-
-    if (count <= 1 || segments.length <= count) {
-      return segments;
-    }
-
-    if (method === 'equal') {
-      // Split into equal segments
-      const segmentSize = Math.ceil(segments.length / count);
-      const result: TranscriptSegment[][] = [];
-
-      for (let i = 0; i < segments.length; i += segmentSize) {
-        result.push(segments.slice(i, i + segmentSize));
+    segmentOptions: { method?: 'equal' | 'smart' | 'chapters', count?: number },
+    videoDetails: youtube_v3.Schema$Video[] = []
+  ): TranscriptSection[] {
+    const { method = 'equal', count } = segmentOptions;
+    const sections: TranscriptSection[] = [];
+    let start = 0;
+
+    while (start < segments.length) {
+      let end = start + 1;
+      while (end < segments.length && segments[end].videoId === segments[start].videoId) {
+        end++;
       }
 
-      return result.flat();
-    } else {
-      // Smart segmentation based on content
-      // This would ideally use NLP to find natural segment boundaries
-      // For now, we'll use a simple approach
-      const totalDuration = segments.reduce((sum, segment) => sum + segment.duration, 0);
-      const durationPerSegment = totalDuration / count;
-
-      const result: TranscriptSegment[][] = [];
-      let currentSegment: TranscriptSegment[] = [];
-      let currentDuration = 0;
-
-      segments.forEach(segment => {
-        currentSegment.push(segment);
-        currentDuration += segment.duration;
-
-        if (currentDuration >= durationPerSegment && result.length < count - 1) {
-          result.push(currentSegment);
-          currentSegment = [];
-          currentDuration = 0;
-        }
-      });
-
-      if (currentSegment.length > 0) {
-        result.push(currentSegment);
+      const videoSegments = segments.slice(start, end);
+      const videoId = segments[start].videoId;
+      let videoSections: TranscriptSection[];
+
+      if (method === 'chapters') {
+        // Single-video transcripts carry no videoId on their segments
+        const video = videoId ? videoDetails.find(item => item.id === videoId) : videoDetails[0];
+        const { chapters } = this.parseVideoChapters(video);
+        videoSections = chapters.length ? groupByChapters(videoSegments, chapters) : segmentByTopic(videoSegments, count);
+      } else if (method === 'smart') {
+        videoSections = segmentByTopic(videoSegments, count);
+      } else {
+        videoSections = segmentEqually(videoSegments, count ?? 1);
       }
 
-      return result.flat();
+      for (const section of videoSections) {
+        sections.push({
+          ...section,
+          index: sections.length,
+          videoId,
+          firstSegment: section.firstSegment + start,
+          lastSegment: section.lastSegment + start
+        });
+      }
+      start = end;
     }
+
+    return sections;
   }
 
   private formatTranscript(
     segments: TranscriptSegment[],
-    videoDetails: youtube_v3.Schema$VideoListResponse[],
-    options: TranscriptOptions
+    videoDetails: youtube_v3.Schema$Video[],
+    options: TranscriptOptions,
+    tracks: Array<CaptionTrack & { videoId: string }> = []
   ): FormattedTranscript {
     const { format = 'raw' } = options;
 
@@ -359,105 +1698,90 @@ export class YouTubeService {
       segments,
       totalSegments: segments.length,
       duration: segments.reduce((sum, segment) => sum + segment.duration, 0) / 1000, // in seconds
-      format
+      format,
+      tracks
     };
 
     // Add video metadata if requested
     if (options.includeMetadata) {
-      result.metadata = videoDetails.map(details => {
-        const video = details.items?.[0];
-        if (!video) return null;
+      result.metadata = videoDetails.map(video => ({
+        id: video.id,
+        title: video.snippet?.title,
+        channelId: video.snippet?.channelId,
+        channelTitle: video.snippet?.channelTitle,
+        publishedAt: video.snippet?.publishedAt,
+        duration: video.contentDetails?.duration,
+        viewCount: video.statistics?.viewCount,
+        likeCount: video.statistics?.likeCount
+      }));
+    }
 
-        return {
-          id: video.id,
-          title: video.snippet?.title,
-          channelId: video.snippet?.channelId,
-          channelTitle: video.snippet?.channelTitle,
-          publishedAt: video.snippet?.publishedAt,
-          duration: video.contentDetails?.duration,
-          viewCount: video.statistics?.viewCount,
-          likeCount: video.statistics?.likeCount
-        };
-      }).filter(Boolean);
+    if (options.segment) {
+      result.sections = this.segmentTranscript(segments, options.segment, videoDetails);
     }
 
     // Format transcript according to requested format
-    if (format === 'timestamped') {
-      result.text = segments.map(segment => {
-        const startTime = this.formatTimestamp(segment.offset);
-        return `[${startTime}] ${segment.text}`;
-      }).join('\n');
-    } else if (format === 'merged') {
-      result.text = segments.map(segment => segment.text).join(' ');
+    if (format === 'timestamped' || format === 'merged') {
+      const render = (part: TranscriptSegment[]) => format === 'timestamped'
+        ? part.map(segment => `[${this.formatTimestamp(segment.offset)}] ${segment.text}`).join('\n')
+        : part.map(segment => segment.text).join(' ');
+
+      // Section headings make the boundaries visible in the text as well
+      result.text = result.sections
+        ? result.sections.map(section => {
+          const range = `${this.formatTimestamp(section.startTime * 1000)} - ${this.formatTimestamp(section.endTime * 1000)}`;
+          const heading = `## Section ${section.index + 1} [${range}]: ${section.title ?? section.topTerms.join(', ')}`;
+          return `${heading}\n\n${render(segments.slice(section.firstSegment, section.lastSegment + 1))}`;
+        }).join('\n\n')
+        : render(segments);
+    } else if (isSubtitleFormat(format)) {
+      // Offsets restart at zero for each video, so every video gets its own subtitle document
+      const segmentsByVideo = new Map<string | undefined, TranscriptSegment[]>();
+      segments.forEach(segment => {
+        const videoSegments = segmentsByVideo.get(segment.videoId) || [];
+        videoSegments.push(segment);
+        segmentsByVideo.set(segment.videoId, videoSegments);
+      });
+
+      result.subtitleFiles = Array.from(segmentsByVideo.entries()).map(([videoId, videoSegments]) => ({
+        videoId,
+        // Single-video segments carry no videoId, so their track is the only one
+        text: renderSubtitles(videoSegments, format, (tracks.find(track => track.videoId === videoId) || tracks[0])?.languageCode)
+      }));
+
+      if (result.subtitleFiles.length === 1) {
+        result.text = result.subtitleFiles[0].text;
+      }
     }
 
     return result;
   }
 
   /**
-   * Extracts key moments from a transcript based on content analysis
+   * Extracts key moments from a transcript with TextRank over sentence windows
    * @param videoId Video ID to analyze
    * @param maxMoments Maximum number of key moments to extract
-   * @returns A formatted transcript with key moments and their timestamps
+   * @param includeFullTranscript Whether to append the full timestamped transcript to the text
+   * @returns A formatted transcript with titled, scored key moments and their timestamps
    */
   async getKeyMomentsTranscript(
     videoId: string,
-    maxMoments: number = 5
+    maxMoments: number = 5,
+    includeFullTranscript: boolean = false
   ): Promise<FormattedTranscript> {
     try {
       // Get full transcript
       const transcriptData = await this.getTranscript(videoId);
 
       // Get video details for title and other metadata
-      const videoData = await this.getVideoDetails(videoId);
-      const video = videoData.items?.[0];
+      const videoData = await this.tryGetVideoDetails(videoId);
+      const video = videoData?.items?.[0];
 
       if (!transcriptData.length) {
-        throw new Error('No transcript available for this video');
+        throw new YouTubeError({ code: 'TRANSCRIPT_NOT_FOUND', message: 'No transcript available for this video' });
       }
 
-      // Convert to paragraph chunks to better identify key moments
-      const paragraphs: { text: string; startTime: number; endTime: number }[] = [];
-      let currentParagraph = '';
-      let startTime = 0;
-
-      // Group segments into logical paragraphs (simple approach: group 5-8 segments together)
-      const paragraphSize = Math.max(5, Math.min(8, Math.floor(transcriptData.length / 15)));
-
-      for (let i = 0; i < transcriptData.length; i++) {
-        const segment = transcriptData[i];
-
-        if (i % paragraphSize === 0) {
-          if (currentParagraph) {
-            paragraphs.push({
-              text: currentParagraph.trim(),
-              startTime,
-              endTime: segment.offset / 1000
-            });
-          }
-          currentParagraph = segment.text;
-          startTime = segment.offset / 1000;
-        } else {
-          currentParagraph += ' ' + segment.text;
-        }
-      }
-
-      // Add the last paragraph
-      if (currentParagraph) {
-        const lastSegment = transcriptData[transcriptData.length - 1];
-        paragraphs.push({
-          text: currentParagraph.trim(),
-          startTime,
-          endTime: (lastSegment.offset + lastSegment.duration) / 1000
-        });
-      }
-
-      // Identify key moments (simple approach: paragraphs with the most content)
-      // In a real implementation, this would use NLP to identify important moments
-      const keyMoments = paragraphs
-        .filter(p => p.text.length > 100) // Filter out short paragraphs
-        .sort((a, b) => b.text.length - a.text.length) // Sort by length (simple heuristic)
-        .slice(0, maxMoments); // Take only the top N moments
+      const keyMoments = extractKeyMoments(transcriptData, maxMoments);
 
       // Create formatted output
       const title = video?.snippet?.title || 'Video Transcript';
@@ -465,14 +1789,16 @@ export class YouTubeService {
 
       keyMoments.forEach((moment, index) => {
         const timeFormatted = this.formatTimestamp(moment.startTime * 1000);
-        formattedText += `## Key Moment ${index + 1} [${timeFormatted}]\n${moment.text}\n\n`;
+        formattedText += `## Key Moment ${index + 1} [${timeFormatted}]: ${moment.title}\n`;
+        formattedText += `Score: ${moment.score} | Keywords: ${moment.keywords.join(', ')}\n${moment.text}\n\n`;
       });
 
-      // Add full transcript at the end
-      formattedText += `\n# Full Transcript\n\n`;
-      formattedText += transcriptData.map(segment =>
-        `[${this.formatTimestamp(segment.offset)}] ${segment.text}`
-      ).join('\n');
+      if (includeFullTranscript) {
+        formattedText += `\n# Full Transcript\n\n`;
+        formattedText += transcriptData.map(segment =>
+          `[${this.formatTimestamp(segment.offset)}] ${segment.text}`
+        ).join('\n');
+      }
 
       return {
         segments: transcriptData,
@@ -481,6 +1807,7 @@ export class YouTubeService {
                  transcriptData[transcriptData.length - 1].duration) / 1000,
         format: 'timestamped',
         text: formattedText,
+        keyMoments,
         metadata: video ? [{
           id: video.id,
           title: video.snippet?.title,
@@ -502,71 +1829,75 @@ export class YouTubeService {
    * Divides a video transcript into segments and prepares it for segment-by-segment analysis
    * @param videoId Video ID to segment
    * @param segmentCount Number of segments to divide the transcript into
+   * @param method 'equal' for equal time slices, 'smart' to split where the topic shifts,
+   * 'chapters' to follow the chapters in the description (topic shifts when it has none)
    * @returns A formatted transcript with segments marked by timestamps
    */
   async getSegmentedTranscript(
     videoId: string,
-    segmentCount: number = 4
+    segmentCount: number = 4,
+    method: 'equal' | 'smart' | 'chapters' = 'equal'
   ): Promise<FormattedTranscript> {
     try {
       // Get full transcript
       const transcriptData = await this.getTranscript(videoId);
 
       // Get video details for title and other metadata
-      const videoData = await this.getVideoDetails(videoId);
-      const video = videoData.items?.[0];
+      const videoData = await this.tryGetVideoDetails(videoId);
+      const video = videoData?.items?.[0];
 
       if (!transcriptData.length) {
-        throw new Error('No transcript available for this video');
+        throw new YouTubeError({ code: 'TRANSCRIPT_NOT_FOUND', message: 'No transcript available for this video' });
       }
 
       // Calculate total duration
       const lastSegment = transcriptData[transcriptData.length - 1];
       const totalDuration = (lastSegment.offset + lastSegment.duration) / 1000; // in seconds
 
-      // Calculate segment size
-      const segmentDuration = totalDuration / segmentCount;
-      const segments: {
-        startTime: number;
-        endTime: number;
-        text: string;
-        transcriptSegments: TranscriptSegment[];
-      }[] = [];
-
-      // Create segments
-      for (let i = 0; i < segmentCount; i++) {
-        const startTime = i * segmentDuration;
-        const endTime = (i + 1) * segmentDuration;
-
-        // Find all transcript segments that fall within this time range
-        const segmentTranscript = transcriptData.filter(segment => {
-          const segmentStartTime = segment.offset / 1000;
-          const segmentEndTime = (segment.offset + segment.duration) / 1000;
-          return segmentStartTime >= startTime && segmentStartTime < endTime;
-        });
+      let sections: TranscriptSection[];
+
+      const { chapters } = method === 'chapters' ? this.parseVideoChapters(video) : { chapters: [] };
 
-        if (segmentTranscript.length > 0) {
-          segments.push({
-            startTime,
-            endTime,
-            text: segmentTranscript.map(s => s.text).join(' '),
-            transcriptSegments: segmentTranscript
-          });
+      if (chapters.length) {
+        sections = groupByChapters(transcriptData, chapters);
+      } else if (method !== 'equal') {
+        sections = segmentByTopic(transcriptData, segmentCount);
+      } else {
+        // Equal time slices: each caption belongs to the slice its start time falls in
+        const segmentDuration = totalDuration / segmentCount;
+        const starts: number[] = [];
+
+        for (let i = 1; i < segmentCount; i++) {
+          const start = transcriptData.findIndex(segment => segment.offset / 1000 >= i * segmentDuration);
+          if (start > 0 && start !== starts[starts.length - 1]) {
+            starts.push(start);
+          }
         }
+
+        // Report slice bounds rather than caption bounds; a slice without captions joins the one before it
+        const sliceStart = (segmentIndex: number) =>
+          Math.min(segmentCount - 1, Math.floor(transcriptData[segmentIndex].offset / 1000 / segmentDuration)) * segmentDuration;
+
+        sections = describeSections(transcriptData, starts).map((section, index, all) => ({
+          ...section,
+          startTime: sliceStart(section.firstSegment),
+          endTime: index + 1 < all.length ? sliceStart(all[index + 1].firstSegment) : totalDuration
+        }));
       }
 
       // Create formatted output
       const title = video?.snippet?.title || 'Video Transcript';
       let formattedText = `# Segmented Transcript: ${title}\n\n`;
 
-      segments.forEach((segment, index) => {
-        const startTimeFormatted = this.formatTimestamp(segment.startTime * 1000);
-        const endTimeFormatted = this.formatTimestamp(segment.endTime * 1000);
+      sections.forEach((section, index) => {
+        const startTimeFormatted = this.formatTimestamp(section.startTime * 1000);
+        const endTimeFormatted = this.formatTimestamp(section.endTime * 1000);
 
-        formattedText += `## Segment ${index + 1} [${startTimeFormatted} - ${endTimeFormatted}]\n\n`;
+        formattedText += `## Segment ${index + 1} [${startTimeFormatted} - ${endTimeFormatted}]${section.title ? `: ${section.title}` : ''}\n`;
+        formattedText += `Topics: ${section.topTerms.join(', ')}\n\n`;
 
         // Add transcript for this segment
-        formattedText += segment.transcriptSegments.map(s =>
+        formattedText += transcriptData.slice(section.firstSegment, section.lastSegment + 1).map(s =>
           `[${this.formatTimestamp(s.offset)}] ${s.text}`
         ).join('\n');
 
@@ -579,6 +1910,7 @@ export class YouTubeService {
         duration: totalDuration,
         format: 'timestamped',
         text: formattedText,
+        sections,
         metadata: video ? [{
           id: video.id,
           title: video.snippet?.title,
@@ -598,14 +1930,20 @@ export class YouTubeService {
 
   private formatTimestamp(milliseconds: number): string {
     const totalSeconds = Math.floor(milliseconds / 1000);
-    const minutes = Math.floor(totalSeconds / 60);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
     const seconds = totalSeconds % 60;
+
+    if (hours > 0) {
+      return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+    }
+
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   }
 
   private generateTranscriptCacheKey(videoId: string, options: TranscriptOptions): string {
     const optionsString = JSON.stringify({
-      language: options.language || 'default'
+      languages: parseLanguages(options.language).join(',') || 'default'
     });
     return `transcript_${videoId}_${optionsString}`;
   }
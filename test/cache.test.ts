@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { CacheConfig, PersistentCache } from '../src/utils/cache.js';
+
+describe('PersistentCache', () => {
+  let directory: string;
+  let config: CacheConfig;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-test-'));
+    config = { directory, ttl: { transcript: 60, video: 60, channel: 60, comments: 0 } };
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('runs one fetch for concurrent lookups of the same key', async () => {
+    const cache = new PersistentCache(config);
+    let fetches = 0;
+    const fetcher = async () => {
+      fetches++;
+      await new Promise(resolve => setTimeout(resolve, 10));
+      return { title: 'video' };
+    };
+
+    const results = await Promise.all([1, 2, 3].map(() => cache.getOrFetch('video', 'abc', fetcher)));
+
+    assert.equal(fetches, 1);
+    assert.ok(results.every(result => result === results[0]));
+    assert.deepEqual(await cache.getOrFetch('video', 'abc', fetcher), { title: 'video' });
+    assert.equal(fetches, 1);
+  });
+
+  it('does not cache failed fetches or values shouldCache rejects', async () => {
+    const cache = new PersistentCache(config);
+
+    await assert.rejects(cache.getOrFetch('video', 'abc', async () => { throw new Error('offline'); }));
+    assert.equal(await cache.getOrFetch('video', 'abc', async () => 'second try'), 'second try');
+
+    assert.equal(await cache.getOrFetch('channel', 'partial', async () => 'partial', () => false), 'partial');
+    assert.equal(await cache.lookup('channel', 'partial'), undefined);
+  });
+
+  it('serves entries from disk to a new instance until they expire', async () => {
+    await new PersistentCache(config).getOrFetch('transcript', 'abc:en', async () => ['cue']);
+
+    assert.deepEqual(await new PersistentCache(config).lookup('transcript', 'abc:en'), ['cue']);
+
+    const now = Date.now();
+    mock.method(Date, 'now', () => now + 61 * 1000);
+    let fetches = 0;
+    const value = await new PersistentCache(config).getOrFetch('transcript', 'abc:en', async () => {
+      fetches++;
+      return ['refetched'];
+    });
+
+    assert.equal(fetches, 1);
+    assert.deepEqual(value, ['refetched']);
+  });
+
+  it('bypasses a kind whose TTL is 0', async () => {
+    const cache = new PersistentCache(config);
+    let fetches = 0;
+    const fetcher = async () => ++fetches;
+
+    await cache.getOrFetch('comments', 'abc', fetcher);
+    await cache.getOrFetch('comments', 'abc', fetcher);
+    await cache.store('comments', 'abc', 3);
+
+    assert.equal(fetches, 2);
+    assert.equal(await cache.lookup('comments', 'abc'), undefined);
+    assert.equal(fs.existsSync(path.join(directory, 'comments')), false);
+  });
+
+  it('keeps entries in memory only without a directory', async () => {
+    const cache = new PersistentCache({ ...config, directory: null });
+
+    await cache.store('video', 'abc', 'in memory');
+
+    assert.equal(await cache.lookup('video', 'abc'), 'in memory');
+    assert.equal(await new PersistentCache({ ...config, directory: null }).lookup('video', 'abc'), undefined);
+  });
+});
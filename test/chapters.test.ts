@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { groupByChapters, parseChapters, parseIsoDuration } from '../src/utils/chapters.js';
+
+describe('parseIsoDuration', () => {
+  it('converts contentDetails durations to seconds', () => {
+    assert.equal(parseIsoDuration('PT1H2M3S'), 3723);
+    assert.equal(parseIsoDuration('PT45S'), 45);
+    assert.equal(parseIsoDuration('PT10M'), 600);
+    assert.equal(parseIsoDuration('P1DT1S'), 86401);
+    assert.equal(parseIsoDuration('PT1.5S'), 1.5);
+    assert.equal(parseIsoDuration('P0D'), 0); // Live streams
+  });
+
+  it('returns null for missing or malformed durations', () => {
+    assert.equal(parseIsoDuration(undefined), null);
+    assert.equal(parseIsoDuration(null), null);
+    assert.equal(parseIsoDuration('1:02:03'), null);
+    assert.equal(parseIsoDuration('PT1H2X'), null);
+  });
+});
+
+describe('parseChapters', () => {
+  it('reads leading and trailing timestamps in the formats descriptions use', () => {
+    const description = [
+      'Recorded live at 19:30 - thanks for watching!',
+      '',
+      '0:00 Intro',
+      '[1:05] - Setup',
+      '3. 12:34 Benchmarks',
+      'Q&A (1:02:03)',
+      '',
+      'Links: https://example.com'
+    ].join('\n');
+
+    const { chapters, error } = parseChapters(description, 4000);
+
+    assert.equal(error, undefined);
+    assert.deepEqual(chapters.map(({ title, startTime, endTime, timestamp }) => ({ title, startTime, endTime, timestamp })), [
+      { title: 'Intro', startTime: 0, endTime: 65, timestamp: '0:00' },
+      { title: 'Setup', startTime: 65, endTime: 754, timestamp: '1:05' },
+      { title: 'Benchmarks', startTime: 754, endTime: 3723, timestamp: '12:34' },
+      { title: 'Q&A', startTime: 3723, endTime: 4000, timestamp: '1:02:03' }
+    ]);
+  });
+
+  it('leaves the last chapter open when the video length is unknown', () => {
+    const { chapters } = parseChapters('0:00 Start\n2:00 End');
+
+    assert.equal(chapters[1].endTime, null);
+  });
+
+  it('ignores descriptions with fewer than two timestamps', () => {
+    assert.deepEqual(parseChapters('0:00 Just one'), { chapters: [] });
+    assert.deepEqual(parseChapters(null), { chapters: [] });
+  });
+
+  it('rejects lists that do not start at 0:00, go backwards, or outlast the video', () => {
+    assert.match(parseChapters('0:30 Intro\n1:00 Main').error!, /must start at 0:00, but starts at 0:30/);
+    assert.match(parseChapters('0:00 Intro\n2:00 Main\n1:00 Outro').error!, /"Outro" \(1:00\) follows "Main" \(2:00\)/);
+    assert.match(parseChapters('0:00 Intro\n5:00 Outro', 120).error!, /"Outro" starts after the end of the video/);
+    assert.deepEqual(parseChapters('0:00 Intro\n2:00 Main\n1:00 Outro').chapters, []);
+  });
+});
+
+describe('groupByChapters', () => {
+  it('puts each caption under the chapter it starts in and skips chapters without captions', () => {
+    const { chapters } = parseChapters('0:00 Intro\n0:10 Empty\n0:20 Main', 40);
+    const segments = [
+      { text: 'hello', offset: 0, duration: 5000 },
+      { text: 'welcome', offset: 5000, duration: 4000 },
+      { text: 'main topic', offset: 20000, duration: 5000 },
+      { text: 'more', offset: 30000, duration: 5000 }
+    ];
+
+    const sections = groupByChapters(segments, chapters);
+
+    assert.deepEqual(sections.map(({ title, startTime, endTime, firstSegment, lastSegment }) => ({ title, startTime, endTime, firstSegment, lastSegment })), [
+      { title: 'Intro', startTime: 0, endTime: 10, firstSegment: 0, lastSegment: 1 },
+      { title: 'Main', startTime: 20, endTime: 40, firstSegment: 2, lastSegment: 3 }
+    ]);
+  });
+});
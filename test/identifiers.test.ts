@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { InvalidIdentifierError } from '../src/types/youtube-types.js';
+import { isLanguageCode, parseChannelReference, parsePlaylistId, parseVideoId } from '../src/utils/identifiers.js';
+
+describe('parseVideoId', () => {
+  it('extracts the ID from bare IDs and every supported URL form', () => {
+    for (const input of [
+      'dQw4w9WgXcQ',
+      '  dQw4w9WgXcQ ',
+      'https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=42s',
+      'youtube.com/watch?feature=share&v=dQw4w9WgXcQ',
+      'https://m.youtube.com/watch?v=dQw4w9WgXcQ',
+      'https://youtu.be/dQw4w9WgXcQ?si=abc',
+      'youtu.be/dQw4w9WgXcQ',
+      'https://www.youtube.com/shorts/dQw4w9WgXcQ',
+      'https://www.youtube.com/live/dQw4w9WgXcQ?feature=share',
+      'https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ',
+      'https://music.youtube.com/watch?v=dQw4w9WgXcQ&list=RDAMVMdQw4w9WgXcQ'
+    ]) {
+      assert.equal(parseVideoId(input), 'dQw4w9WgXcQ', input);
+    }
+  });
+
+  it('rejects other hosts, short IDs and URLs without a video', () => {
+    for (const input of ['https://vimeo.com/watch?v=dQw4w9WgXcQ', 'dQw4w9WgXc', 'https://www.youtube.com/@handle', 'not a video']) {
+      assert.throws(() => parseVideoId(input), InvalidIdentifierError, input);
+    }
+  });
+});
+
+describe('parsePlaylistId', () => {
+  it('extracts the ID from bare IDs and list= parameters', () => {
+    assert.equal(parsePlaylistId('PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf'), 'PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf');
+    assert.equal(parsePlaylistId('https://www.youtube.com/playlist?list=UUuAXFkgsw1L7xaCfnd5JJOw'), 'UUuAXFkgsw1L7xaCfnd5JJOw');
+    assert.equal(parsePlaylistId('https://youtu.be/dQw4w9WgXcQ?list=RDdQw4w9WgXcQ'), 'RDdQw4w9WgXcQ');
+  });
+
+  it('requires a suffix after the prefix', () => {
+    for (const input of ['PL', 'WL', 'LL', 'PLshort', 'https://www.youtube.com/playlist?list=PL', 'XXrAXtmErZgOeiKm4sgNOknGvNjby9efdf']) {
+      assert.throws(() => parsePlaylistId(input), InvalidIdentifierError, input);
+    }
+  });
+});
+
+describe('parseChannelReference', () => {
+  it('classifies IDs, handles and channel URLs', () => {
+    const id = 'UCuAXFkgsw1L7xaCfnd5JJOw';
+
+    assert.deepEqual(parseChannelReference(id), { type: 'id', value: id });
+    assert.deepEqual(parseChannelReference(`https://www.youtube.com/channel/${id}/videos`), { type: 'id', value: id });
+    assert.deepEqual(parseChannelReference('@GoogleDevelopers'), { type: 'handle', value: 'GoogleDevelopers' });
+    assert.deepEqual(parseChannelReference('youtube.com/@GoogleDevelopers/videos'), { type: 'handle', value: 'GoogleDevelopers' });
+    assert.deepEqual(parseChannelReference('https://www.youtube.com/@%E0%A4%A4%E0%A4%AE%E0%A4%B2'), { type: 'handle', value: 'तमल' });
+    assert.deepEqual(parseChannelReference('https://www.youtube.com/user/GoogleDevelopers'), { type: 'username', value: 'GoogleDevelopers' });
+    assert.deepEqual(parseChannelReference('https://www.youtube.com/c/GoogleDevelopers'), { type: 'custom', value: 'GoogleDevelopers' });
+    assert.deepEqual(parseChannelReference('https://www.youtube.com/GoogleDevelopers'), { type: 'custom', value: 'GoogleDevelopers' });
+  });
+
+  it('rejects YouTube pages that are not channels and malformed percent-encoding', () => {
+    for (const input of ['https://www.youtube.com/watch?v=dQw4w9WgXcQ', 'https://youtu.be/dQw4w9WgXcQ', 'https://youtube.com/@%E0%A4%A', '@ab', 'UCshort']) {
+      assert.throws(() => parseChannelReference(input), InvalidIdentifierError, input);
+    }
+  });
+});
+
+describe('isLanguageCode', () => {
+  it('accepts language tags and rejects anything that could escape a file name or URL', () => {
+    for (const code of ['en', 'en-GB', 'zh-Hans', 'pt_BR', 'fil']) {
+      assert.equal(isLanguageCode(code), true, code);
+    }
+    for (const code of ['', 'e', '../en', 'en/../../etc', 'en GB', 'en&x=1']) {
+      assert.equal(isLanguageCode(code), false, code);
+    }
+  });
+});
@@ -0,0 +1,169 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import { OAuthConfig, OAuthManager } from '../src/utils/oauth.js';
+
+interface RecordedRequest {
+  path: string;
+  params: URLSearchParams;
+}
+
+/**
+ * Stand-in for Google's OAuth endpoints: /token answers the code exchange and refreshes,
+ * /revoke rejects every token
+ */
+class TokenEndpoint {
+  requests: RecordedRequest[] = [];
+  private server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const url = new URL(req.url || '/', this.url);
+      const params = new URLSearchParams(body || url.search);
+      this.requests.push({ path: url.pathname, params });
+      res.setHeader('Content-Type', 'application/json');
+
+      if (url.pathname === '/token' && params.get('grant_type') === 'authorization_code' && params.get('code') === 'good-code') {
+        res.end(JSON.stringify({ access_token: 'access-1', refresh_token: 'refresh-1', expires_in: 3600, scope: 'https://www.googleapis.com/auth/youtube.readonly', token_type: 'Bearer' }));
+      } else if (url.pathname === '/token' && params.get('grant_type') === 'refresh_token' && params.get('refresh_token') === 'refresh-1') {
+        res.end(JSON.stringify({ access_token: 'access-2', expires_in: 3600, token_type: 'Bearer' }));
+      } else if (url.pathname === '/revoke') {
+        res.writeHead(400).end(JSON.stringify({ error: 'invalid_token' }));
+      } else {
+        res.writeHead(400).end(JSON.stringify({ error: 'invalid_grant', error_description: 'Bad Request' }));
+      }
+    });
+  });
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  listen(): Promise<void> {
+    return new Promise(resolve => this.server.listen(0, '127.0.0.1', () => resolve()));
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+/**
+ * The URL Google would redirect the browser to for the pending authorization
+ */
+async function redirectFor(manager: OAuthManager, code: string): Promise<string> {
+  const { url } = await manager.startAuthorization();
+  const state = new URL(url).searchParams.get('state');
+  return `https://example.invalid/oauth2callback?code=${code}&state=${state}`;
+}
+
+describe('OAuthManager', () => {
+  const endpoint = new TokenEndpoint();
+  let directory: string;
+  let config: OAuthConfig;
+
+  before(() => endpoint.listen());
+  after(() => endpoint.close());
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'oauth-test-'));
+    endpoint.requests = [];
+    config = {
+      clientId: 'client-id',
+      clientSecret: 'client-secret',
+      redirectUri: 'https://example.invalid/oauth2callback', // Not a loopback address, so no listener starts
+      scopes: ['https://www.googleapis.com/auth/youtube.readonly'],
+      tokenFile: path.join(directory, 'oauth-token.json'),
+      tokenUrl: `${endpoint.url}/token`,
+      revokeUrl: `${endpoint.url}/revoke`
+    };
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('exchanges an authorization code and stores the tokens for the owner only', async () => {
+    const manager = new OAuthManager(config);
+
+    const status = await manager.completeAuthorization(await redirectFor(manager, 'good-code'));
+
+    assert.equal(status.signedIn, true);
+    assert.equal(status.hasRefreshToken, true);
+    assert.deepEqual(status.scopes, ['https://www.googleapis.com/auth/youtube.readonly']);
+    assert.equal(endpoint.requests.length, 1);
+    assert.equal(endpoint.requests[0].params.get('client_id'), 'client-id');
+    assert.equal(endpoint.requests[0].params.get('redirect_uri'), config.redirectUri);
+
+    const stored = JSON.parse(fs.readFileSync(config.tokenFile!, 'utf8'));
+    assert.equal(stored.access_token, 'access-1');
+    assert.equal(stored.refresh_token, 'refresh-1');
+    assert.equal(fs.statSync(config.tokenFile!).mode & 0o777, 0o600);
+  });
+
+  it('rejects a code the token endpoint does not accept', async () => {
+    const manager = new OAuthManager(config);
+
+    await assert.rejects(manager.completeAuthorization(await redirectFor(manager, 'bad-code')));
+    assert.equal(manager.isSignedIn, false);
+    assert.equal(fs.existsSync(config.tokenFile!), false);
+  });
+
+  it('only exchanges a code for the pending authorization it belongs to', async () => {
+    const manager = new OAuthManager(config);
+    const callback = 'https://example.invalid/oauth2callback?code=good-code';
+
+    await assert.rejects(manager.completeAuthorization(`${callback}&state=unknown`), /No authorization is waiting/);
+    await manager.startAuthorization();
+    await assert.rejects(manager.completeAuthorization('good-code'), /whole URL/);
+    await assert.rejects(manager.completeAuthorization(`${callback}&state=unknown`), /does not belong/);
+    await assert.rejects(manager.completeAuthorization(callback), /does not belong/);
+    assert.equal(endpoint.requests.length, 0);
+    assert.equal(manager.isSignedIn, false);
+  });
+
+  it('makes an existing token file readable by the owner only', async () => {
+    fs.writeFileSync(config.tokenFile!, '{}', { mode: 0o644 });
+    const manager = new OAuthManager(config);
+
+    await manager.completeAuthorization(await redirectFor(manager, 'good-code'));
+
+    assert.equal(fs.statSync(config.tokenFile!).mode & 0o777, 0o600);
+    assert.deepEqual(fs.readdirSync(directory), ['oauth-token.json']);
+  });
+
+  it('refreshes an expired access token and writes it back to the token file', async () => {
+    fs.writeFileSync(config.tokenFile!, JSON.stringify({ access_token: 'access-1', refresh_token: 'refresh-1', expiry_date: Date.now() - 1000 }));
+    const manager = new OAuthManager(config);
+
+    const { token } = await manager.getClient().getAccessToken();
+
+    assert.equal(token, 'access-2');
+    assert.equal(endpoint.requests[0].params.get('grant_type'), 'refresh_token');
+    const stored = JSON.parse(fs.readFileSync(config.tokenFile!, 'utf8'));
+    assert.equal(stored.access_token, 'access-2');
+    assert.equal(stored.refresh_token, 'refresh-1', 'the refresh token is kept when the response omits it');
+
+    // A new manager picks the refreshed token up from the file
+    assert.equal(new OAuthManager(config).getStatus().accessTokenExpiresAt, new Date(stored.expiry_date).toISOString());
+  });
+
+  it('signs out locally when revoking the token fails, without logging the token', async () => {
+    fs.writeFileSync(config.tokenFile!, JSON.stringify({ access_token: 'access-1', refresh_token: 'refresh-1', expiry_date: Date.now() + 3600000 }));
+    const manager = new OAuthManager(config);
+    const logged = mock.method(console, 'error', () => {});
+
+    await manager.signOut();
+
+    assert.equal(endpoint.requests[0].path, '/revoke');
+    assert.equal(manager.isSignedIn, false);
+    assert.equal(fs.existsSync(config.tokenFile!), false);
+    assert.equal(logged.mock.callCount(), 1);
+    assert.doesNotMatch(String(logged.mock.calls[0].arguments[0]), /refresh-1/);
+  });
+});
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { TranscriptSegment } from '../src/types/youtube-types.js';
+import { parseCues, parseCueTimestamp, parseJsonTranscript, renderSubtitles } from '../src/utils/subtitle-formats.js';
+
+const segments: TranscriptSegment[] = [
+  { text: 'Tom &amp; Jerry <3', offset: 1500, duration: 2000 },
+  { text: 'first line\n\nsecond line', offset: 3723004, duration: 996 }
+];
+
+describe('renderSubtitles', () => {
+  it('renders SRT with numbered cues, comma timestamps and decoded text', () => {
+    assert.equal(renderSubtitles(segments, 'srt'), [
+      '1',
+      '00:00:01,500 --> 00:00:03,500',
+      'Tom & Jerry <3',
+      '',
+      '2',
+      '01:02:03,004 --> 01:02:04,000',
+      'first line',
+      'second line',
+      ''
+    ].join('\n'));
+  });
+
+  it('escapes markup in WebVTT and TTML', () => {
+    const vtt = renderSubtitles(segments, 'vtt');
+    assert.match(vtt, /^WEBVTT\n/);
+    assert.match(vtt, /00:00:01\.500 --> 00:00:03\.500\nTom &amp; Jerry &lt;3\n/);
+
+    const ttml = renderSubtitles(segments, 'ttml', 'en"GB');
+    assert.match(ttml, /xml:lang="en&quot;GB"/);
+    assert.match(ttml, /<p begin="00:00:01\.500" end="00:00:03\.500">Tom &amp; Jerry &lt;3<\/p>/);
+    assert.match(ttml, />first line<br\/>second line<\/p>/);
+  });
+
+  it('renders json3 events that parse back to the same segments', () => {
+    assert.deepEqual(parseJsonTranscript(renderSubtitles(segments, 'json3')), [
+      { text: 'Tom & Jerry <3', offset: 1500, duration: 2000 },
+      { text: 'first line\nsecond line', offset: 3723004, duration: 996 }
+    ]);
+  });
+});
+
+describe('parseCues', () => {
+  it('reads back what toSrt and toVtt write', () => {
+    const expected = [
+      { text: 'Tom & Jerry', offset: 1500, duration: 2000 },
+      { text: 'first line\nsecond line', offset: 3723004, duration: 996 }
+    ];
+    const plain = [{ ...segments[0], text: 'Tom &amp; Jerry' }, segments[1]];
+
+    assert.deepEqual(parseCues(renderSubtitles(plain, 'srt')), expected);
+    assert.deepEqual(parseCues(renderSubtitles(plain, 'vtt')), expected);
+  });
+
+  it('skips WebVTT headers, notes, cue settings and inline tags', () => {
+    const vtt = '\uFEFFWEBVTT\r\n\r\nNOTE exported by hand\r\n\r\nintro\r\n00:05.250 --> 00:07.000 align:start position:10%\r\n<v Speaker>Hello <b>there</b>\r\n\r\n00:08.000 --> 00:09.000\r\n<c.yellow></c>\r\n';
+
+    assert.deepEqual(parseCues(vtt), [{ text: 'Hello there', offset: 5250, duration: 1750 }]);
+  });
+
+  it('parses short and long cue timestamps and rejects others', () => {
+    assert.equal(parseCueTimestamp('02:03.4'), 123400);
+    assert.equal(parseCueTimestamp('1:02:03,456'), 3723456);
+    assert.throws(() => parseCueTimestamp('soon'), /Invalid cue timestamp/);
+  });
+});
+
+describe('parseJsonTranscript', () => {
+  it('accepts millisecond segments and second-based scraper output', () => {
+    assert.deepEqual(parseJsonTranscript('[{"text":"a","offset":1200,"duration":800}]'), [{ text: 'a', offset: 1200, duration: 800 }]);
+    assert.deepEqual(parseJsonTranscript('[{"text":"b","start":"1.25","dur":0.5}]'), [{ text: 'b', offset: 1250, duration: 500 }]);
+    assert.throws(() => parseJsonTranscript('{"cues":[]}'), /Unsupported JSON transcript/);
+  });
+});
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { TranscriptSegment } from '../src/types/youtube-types.js';
+import { segmentByTopic, segmentEqually } from '../src/utils/topic-segmentation.js';
+
+const TOPICS = [
+  ['flour', 'butter', 'oven', 'dough', 'sugar', 'knead', 'bake', 'yeast', 'crust', 'whisk'],
+  ['telescope', 'galaxy', 'orbit', 'planet', 'nebula', 'comet', 'stellar', 'gravity', 'lens', 'eclipse'],
+  ['goalkeeper', 'penalty', 'striker', 'referee', 'stadium', 'midfield', 'tackle', 'offside', 'corner', 'league']
+];
+const CAPTIONS_PER_TOPIC = 40;
+
+/**
+ * Captions of five words each, cycling through one vocabulary per topic, two seconds apart
+ * with no pauses except before each caption listed in pausesBefore
+ */
+function transcript(pausesBefore: number[] = []): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  let offset = 0;
+
+  TOPICS.forEach(words => {
+    for (let i = 0; i < CAPTIONS_PER_TOPIC; i++) {
+      if (pausesBefore.includes(segments.length)) {
+        offset += 3000;
+      }
+      const text = Array.from({ length: 5 }, (_, j) => words[(i * 3 + j * 7) % words.length]).join(' ');
+      segments.push({ text, offset, duration: 2000 });
+      offset += 2000;
+    }
+  });
+
+  return segments;
+}
+
+describe('segmentByTopic', () => {
+  it('places boundaries at the topic shifts, snapped to the pause there', () => {
+    const sections = segmentByTopic(transcript([40, 80]), 3);
+
+    assert.deepEqual(sections.map(section => section.firstSegment), [0, 40, 80]);
+    assert.deepEqual(sections.map(section => section.lastSegment), [39, 79, 119]);
+    sections.forEach((section, i) => assert.ok(section.topTerms.every(term => TOPICS[i].includes(term)), section.topTerms.join()));
+    assert.ok(sections.slice(1).every(section => section.boundaryScore! > 0));
+  });
+
+  it('lands within a few captions of each shift without pauses to snap to', () => {
+    const starts = segmentByTopic(transcript(), 3).slice(1).map(section => section.firstSegment);
+
+    assert.equal(starts.length, 2);
+    assert.ok(Math.abs(starts[0] - 40) <= 4, `first boundary at ${starts[0]}`);
+    assert.ok(Math.abs(starts[1] - 80) <= 4, `second boundary at ${starts[1]}`);
+  });
+
+  it('treats count as an upper bound and finds the shifts without one', () => {
+    assert.equal(segmentByTopic(transcript([40, 80]), 2).length, 2);
+    assert.deepEqual(segmentByTopic(transcript([40, 80])).map(section => section.firstSegment), [0, 40, 80]);
+  });
+
+  it('returns one section for a single topic, a short transcript or count 1', () => {
+    const oneTopic = transcript().slice(0, CAPTIONS_PER_TOPIC);
+
+    assert.equal(segmentByTopic(oneTopic).length, 1);
+    assert.equal(segmentByTopic(transcript().slice(0, 3)).length, 1);
+    assert.equal(segmentByTopic(transcript(), 1).length, 1);
+    assert.deepEqual(segmentByTopic([]), []);
+  });
+});
+
+describe('segmentEqually', () => {
+  it('splits captions into sections of equal size with their time ranges', () => {
+    const sections = segmentEqually(transcript(), 4);
+
+    assert.deepEqual(sections.map(section => [section.firstSegment, section.lastSegment]), [[0, 29], [30, 59], [60, 89], [90, 119]]);
+    assert.equal(sections[1].startTime, 60);
+    assert.equal(sections[3].endTime, 240);
+  });
+});
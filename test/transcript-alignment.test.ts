@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { TranscriptSegment } from '../src/types/youtube-types.js';
+import { alignTranscripts, renderAlignmentMarkdown, renderAlignmentSrt } from '../src/utils/transcript-alignment.js';
+
+function cue(text: string, start: number, end: number): TranscriptSegment {
+  return { text, offset: start * 1000, duration: (end - start) * 1000 };
+}
+
+/**
+ * The text of each aligned row, as [first language, second language]
+ */
+function pairs(a: TranscriptSegment[], b: TranscriptSegment[]): string[][] {
+  return alignTranscripts(a, b).map(row => [row.textA, row.textB]);
+}
+
+describe('alignTranscripts', () => {
+  it('pairs cues with matching timings one to one', () => {
+    const rows = alignTranscripts(
+      [cue('Hello', 0, 2), cue('How are you?', 2, 4)],
+      [cue('Hola', 0, 2), cue('¿Cómo estás?', 2.1, 4)]
+    );
+
+    assert.deepEqual(rows.map(row => [row.textA, row.textB, row.cuesA, row.cuesB]), [['Hello', 'Hola', 1, 1], ['How are you?', '¿Cómo estás?', 1, 1]]);
+    assert.deepEqual(rows.map(row => [row.index, row.startTime, row.endTime]), [[0, 0, 2], [1, 2, 4]]);
+  });
+
+  it('merges a sentence split into two cues with the one cue covering it in the other language', () => {
+    assert.deepEqual(pairs(
+      [cue('It was the best of times,', 0, 2), cue('it was the worst of times.', 2, 4), cue('Next.', 4, 5)],
+      [cue("C'était le meilleur et le pire des temps.", 0, 4), cue('Ensuite.', 4, 5)]
+    ), [
+      ['It was the best of times, it was the worst of times.', "C'était le meilleur et le pire des temps."],
+      ['Next.', 'Ensuite.']
+    ]);
+
+    assert.deepEqual(pairs(
+      [cue('One long line', 10, 14)],
+      [cue('Eine', 10, 11.5), cue('lange', 11.5, 12.8), cue('Zeile', 12.8, 14)]
+    ), [['One long line', 'Eine lange Zeile']]);
+  });
+
+  it('keeps cues without a counterpart in rows of their own, in time order', () => {
+    assert.deepEqual(pairs(
+      [cue('[Music]', 0, 3), cue('Welcome', 3, 5)],
+      [cue('Bienvenue', 3, 5), cue('Merci', 8, 9)]
+    ), [['[Music]', ''], ['Welcome', 'Bienvenue'], ['', 'Merci']]);
+  });
+
+  it('does not pair cues that only touch or barely overlap', () => {
+    assert.deepEqual(pairs([cue('A', 0, 4)], [cue('B', 3.5, 8)]), [['A', ''], ['', 'B']]);
+  });
+
+  it('limits how many cues chain into one row', () => {
+    // Each cue of a overlaps the next cue of b by more than half, so everything is linked
+    const a = Array.from({ length: 12 }, (_, i) => cue(`a${i}`, i, i + 1));
+    const b = Array.from({ length: 12 }, (_, i) => cue(`b${i}`, i + 0.2, i + 1.2));
+
+    const rows = alignTranscripts(a, b);
+
+    assert.ok(rows.every(row => row.cuesA <= 8 && row.cuesB <= 8));
+    assert.equal(rows.reduce((sum, row) => sum + row.cuesA, 0), 12);
+    assert.equal(rows.reduce((sum, row) => sum + row.cuesB, 0), 12);
+  });
+});
+
+describe('alignment rendering', () => {
+  const rows = alignTranscripts([cue('Yes | no', 3725, 3727)], [cue('Sí', 3725, 3727), cue('Fin', 3730, 3731)]);
+
+  it('renders a markdown table with escaped pipes and empty cells', () => {
+    assert.equal(renderAlignmentMarkdown(rows, 'en', 'es'), [
+      '| Time | en | es |',
+      '|------|------|------|',
+      '| 1:02:05 | Yes \\| no | Sí |',
+      '| 1:02:10 |   | Fin |'
+    ].join('\n'));
+  });
+
+  it('renders SRT cues with one line per language', () => {
+    assert.equal(renderAlignmentSrt(rows), '1\n01:02:05,000 --> 01:02:07,000\nYes | no\nSí\n\n2\n01:02:10,000 --> 01:02:11,000\nFin\n');
+  });
+});
@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { TranscriptSegment, YouTubeError } from '../src/types/youtube-types.js';
+import { chunkTranscript, estimateTokens, selectChunk } from '../src/utils/transcript-chunks.js';
+
+/**
+ * Captions of 60 characters each, which chunkTranscript counts as 20 tokens with the
+ * timestamp overhead; those listed in sentenceEnds end with a full stop
+ */
+function captions(count: number, sentenceEnds: number[] = []): TranscriptSegment[] {
+  return Array.from({ length: count }, (_, i) => ({
+    text: `caption ${i} `.padEnd(59, 'x') + (sentenceEnds.includes(i) ? '.' : 'x'),
+    offset: i * 2000,
+    duration: 2000
+  }));
+}
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token, and one per CJK or Hangul character', () => {
+    assert.equal(estimateTokens(''), 0);
+    assert.equal(estimateTokens('abcd'), 1);
+    assert.equal(estimateTokens('abcde'), 2);
+    assert.equal(estimateTokens('日本語'), 3);
+    assert.equal(estimateTokens('한국어 text'), 5);
+  });
+});
+
+describe('chunkTranscript', () => {
+  it('fills chunks up to the budget and covers every caption', () => {
+    const chunks = chunkTranscript(captions(25), { maxTokens: 200, overlapTokens: 0 });
+
+    assert.deepEqual(chunks.map(chunk => [chunk.firstSegment, chunk.lastSegment, chunk.tokenEstimate]), [[0, 9, 200], [10, 19, 200], [20, 24, 100]]);
+    assert.ok(chunks.every(chunk => chunk.totalChunks === 3));
+    assert.deepEqual(chunks.map(chunk => chunk.chunk), [1, 2, 3]);
+    assert.equal(chunks[1].startTime, 20);
+    assert.equal(chunks[2].endTime, 50);
+  });
+
+  it('cuts a full chunk after a sentence end near its limit, but not one far from it', () => {
+    const nearEnd = chunkTranscript(captions(25, [7]), { maxTokens: 200, overlapTokens: 0 });
+    assert.equal(nearEnd[0].lastSegment, 7);
+    assert.equal(nearEnd[0].tokenEstimate, 160);
+    assert.equal(nearEnd[1].firstSegment, 8);
+
+    const farFromEnd = chunkTranscript(captions(25, [3]), { maxTokens: 200, overlapTokens: 0 });
+    assert.equal(farFromEnd[0].lastSegment, 9);
+  });
+
+  it('repeats the end of the previous chunk as overlap', () => {
+    const chunks = chunkTranscript(captions(25), { maxTokens: 200, overlapTokens: 40 });
+
+    assert.equal(chunks[1].firstSegment, 8);
+    assert.equal(chunks[1].overlapSegments, 2);
+    assert.equal(chunks[0].overlapSegments, 0);
+    assert.equal(chunks[chunks.length - 1].lastSegment, 24);
+  });
+
+  it('keeps the budget and overlap within bounds and gives an oversized caption its own chunk', () => {
+    const chunks = chunkTranscript(captions(25), { maxTokens: 10, overlapTokens: 1000 });
+    assert.equal(chunks[0].lastSegment, 9, 'the budget is raised to the minimum of 200');
+    assert.equal(chunks[1].firstSegment, 5, 'the overlap is capped at half a chunk');
+
+    const oversized = [{ text: 'x'.repeat(2000), offset: 0, duration: 1000 }, ...captions(2)];
+    assert.deepEqual(chunkTranscript(oversized, { maxTokens: 200 }).map(chunk => [chunk.firstSegment, chunk.lastSegment]), [[0, 0], [1, 2]]);
+  });
+
+  it('returns no chunks for an empty transcript', () => {
+    assert.deepEqual(chunkTranscript([]), []);
+  });
+});
+
+describe('selectChunk', () => {
+  it('explains the valid range for a chunk that does not exist', () => {
+    const chunks = chunkTranscript(captions(3));
+
+    assert.equal(selectChunk(chunks, 1).chunk, 1);
+    assert.throws(() => selectChunk(chunks, 2), (error: YouTubeError) =>
+      error.code === 'INVALID_ARGUMENT' && /the transcript has 1 chunk at/.test(error.message));
+  });
+});
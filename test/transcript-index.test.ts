@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { TranscriptSegment } from '../src/types/youtube-types.js';
+import { TranscriptIndex } from '../src/utils/transcript-index.js';
+
+/**
+ * One caption every ten seconds, so every three captions make a 30 second passage
+ */
+function captions(...texts: string[]): TranscriptSegment[] {
+  return texts.map((text, i) => ({ text, offset: i * 10000, duration: 9000 }));
+}
+
+function memoryIndex(): TranscriptIndex {
+  return new TranscriptIndex({ indexFile: null });
+}
+
+describe('TranscriptIndex search', () => {
+  it('ranks passages by BM25: more occurrences and rarer terms score higher', () => {
+    const index = memoryIndex();
+    index.add('aaaaaaaaaaa', captions('the compiler compiles code', 'a compiler for every language', 'compiler errors explained'));
+    index.add('bbbbbbbbbbb', captions('we mention the compiler once', 'then talk about cooking', 'and more cooking'));
+    index.add('ccccccccccc', captions('nothing relevant here', 'just cooking', 'cooking again'));
+
+    assert.deepEqual(index.search('compiler').map(hit => hit.videoId), ['aaaaaaaaaaa', 'bbbbbbbbbbb']);
+
+    const [top] = index.search('code cooking');
+    assert.equal(top.videoId, 'aaaaaaaaaaa', 'the rare term outweighs the common one');
+    assert.deepEqual(index.search('spaceship'), []);
+  });
+
+  it('requires quoted phrases verbatim and anchors the hit at the phrase', () => {
+    const index = memoryIndex();
+    index.add('aaaaaaaaaaa', captions('machine words first', 'then we cover learning machine', 'finally machine learning'));
+    index.add('bbbbbbbbbbb', captions('learning about a machine', 'nothing else', 'the end'));
+
+    const hits = index.search('"machine learning"');
+
+    assert.equal(hits.length, 1);
+    assert.equal(hits[0].videoId, 'aaaaaaaaaaa');
+    assert.equal(hits[0].offset, 20000);
+    assert.equal(hits[0].timestamp, '0:20');
+    assert.equal(hits[0].url, 'https://www.youtube.com/watch?v=aaaaaaaaaaa&t=20s');
+    assert.match(hits[0].snippet, /^finally machine learning/);
+  });
+
+  it('finds a phrase that straddles the boundary between two passages', () => {
+    const index = memoryIndex();
+    index.add('aaaaaaaaaaa', captions('intro', 'still intro', 'and now the quick brown', 'fox jumps over', 'the lazy dog'));
+
+    const hits = index.search('"quick brown fox jumps"');
+
+    assert.equal(hits.length, 1);
+    assert.equal(hits[0].offset, 20000);
+    assert.deepEqual(index.search('"brown intro"'), []);
+  });
+
+  it('caps hits per video and filters by video ID', () => {
+    const index = memoryIndex();
+    index.add('aaaaaaaaaaa', captions(...Array.from({ length: 15 }, () => 'rust ownership')));
+    index.add('bbbbbbbbbbb', captions('rust traits', 'more', 'words'));
+
+    assert.equal(index.search('rust').filter(hit => hit.videoId === 'aaaaaaaaaaa').length, 3);
+    assert.equal(index.search('rust', { maxHitsPerVideo: 1 }).length, 2);
+    assert.equal(index.search('rust', { limit: 2 }).length, 2);
+    assert.deepEqual(index.search('rust', { videoIds: ['bbbbbbbbbbb'] }).map(hit => hit.videoId), ['bbbbbbbbbbb']);
+  });
+});
+
+describe('TranscriptIndex transcripts', () => {
+  it('indexes each language of a video separately', () => {
+    const index = memoryIndex();
+    index.add('aaaaaaaaaaa', captions('hello world'), 'en');
+    index.add('aaaaaaaaaaa', captions('hola mundo'), 'es');
+
+    assert.equal(index.size, 2);
+    assert.equal(index.has('aaaaaaaaaaa', ['en-GB']), true);
+    assert.equal(index.has('aaaaaaaaaaa', ['fr']), false);
+    assert.equal(index.has('aaaaaaaaaaa'), true);
+    assert.equal(index.search('hola')[0].language, 'es');
+
+    index.add('aaaaaaaaaaa', captions('goodbye world'), 'en');
+    assert.deepEqual(index.search('hello'), []);
+    assert.equal(index.search('goodbye')[0].language, 'en');
+    assert.equal(index.search('mundo').length, 1, 'replacing one language keeps the others');
+  });
+
+  it('reuses the passage slots of a replaced transcript', () => {
+    const index = memoryIndex();
+    const texts = Array.from({ length: 9 }, (_, i) => `caption ${i}`);
+
+    for (let version = 0; version < 20; version++) {
+      index.add('aaaaaaaaaaa', captions(...texts.map(text => `${text} version${version}`)));
+    }
+
+    assert.equal((index as unknown as { passages: unknown[] }).passages.length, 3);
+    assert.equal(index.search('version19').length, 3);
+    assert.deepEqual(index.search('version18'), []);
+  });
+
+  it('loads the index file and merges its own transcripts into it', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'transcript-index-test-'));
+    const indexFile = path.join(directory, 'index.json');
+
+    try {
+      const stored = { videoId: 'bbbbbbbbbbb', language: 'en', indexedAt: new Date().toISOString(), segments: captions('saved by another process') };
+      fs.writeFileSync(indexFile, JSON.stringify([stored]));
+
+      const index = new TranscriptIndex({ indexFile });
+      assert.equal(index.search('another')[0].videoId, 'bbbbbbbbbbb');
+
+      // Another process saves a transcript after this one loaded the file
+      const later = { videoId: 'ccccccccccc', language: 'en', indexedAt: new Date().toISOString(), segments: captions('saved later') };
+      fs.writeFileSync(indexFile, JSON.stringify([stored, later]));
+      index.add('aaaaaaaaaaa', captions('added here'), 'en');
+
+      const deadline = Date.now() + 10000;
+      while (!fs.readFileSync(indexFile, 'utf8').includes('aaaaaaaaaaa') && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+
+      const saved = JSON.parse(fs.readFileSync(indexFile, 'utf8')) as Array<{ videoId: string }>;
+      assert.deepEqual(saved.map(transcript => transcript.videoId).sort(), ['aaaaaaaaaaa', 'bbbbbbbbbbb', 'ccccccccccc']);
+      assert.equal(index.search('later')[0].videoId, 'ccccccccccc');
+      assert.deepEqual(fs.readdirSync(directory), ['index.json']);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});